@@ -1,7 +1,24 @@
 import { NoCloud } from "./sdk";
 
+export { computeChecksums } from "./lib/checksum";
+export { LruDedupeCache } from "./lib/dedupe-cache";
+export { AesKeyProvider, getEncryptedSize } from "./lib/encryption";
 export * from "./lib/errors";
+export { stripImageMetadata } from "./lib/image-metadata";
+export {
+  IndexedDBQueueAdapter,
+  MemoryQueueAdapter,
+  type IndexedDBQueueAdapterOptions
+} from "./lib/queue-adapters";
+export {
+  detectMimeType,
+  getMimeTypeFromFilename,
+  SNIFF_LENGTH,
+  sniffMimeType,
+  sniffStream
+} from "./lib/mime";
 export * from "./sdk";
+export { getExpiresAt, isSignedUrlExpired } from "./lib/signed-url";
 export * from "./types";
 
 export default NoCloud;
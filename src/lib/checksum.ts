@@ -0,0 +1,384 @@
+import type { ChecksumAlgorithm, UploadChecksums } from "@/types";
+import { viewToArrayBuffer } from "./streams";
+import { encodeBase64 } from "./utils";
+
+/**
+ * An incremental hash function.
+ */
+export interface Hasher {
+  /**
+   * Feeds the next chunk of data into the hash.
+   */
+  update(data: Uint8Array): void;
+  /**
+   * Finishes the hash and returns the digest. The hasher cannot be reused afterwards.
+   */
+  digest(): Uint8Array;
+}
+
+/**
+ * Request headers carrying each checksum on a signed PUT.
+ */
+const CHECKSUM_HEADERS: Record<ChecksumAlgorithm, string> = {
+  md5: "Content-MD5",
+  sha256: "x-amz-checksum-sha256",
+  crc32c: "x-amz-checksum-crc32c"
+};
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21
+];
+
+const MD5_K = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0
+);
+
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+/**
+ * Buffers input into 64-byte blocks and applies Merkle–Damgård padding,
+ * shared by SHA-256 (big-endian) and MD5 (little-endian).
+ */
+abstract class BlockHasher implements Hasher {
+  private readonly block = new Uint8Array(64);
+  private blockLength = 0;
+  private bytesHashed = 0;
+
+  constructor(private readonly littleEndian: boolean) {}
+
+  protected abstract process(block: DataView): void;
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): void {
+    this.bytesHashed += data.byteLength;
+    let offset = 0;
+
+    if (this.blockLength > 0) {
+      offset = Math.min(64 - this.blockLength, data.byteLength);
+      this.block.set(data.subarray(0, offset), this.blockLength);
+      this.blockLength += offset;
+      if (this.blockLength < 64) return;
+      this.process(new DataView(this.block.buffer));
+      this.blockLength = 0;
+    }
+
+    while (offset + 64 <= data.byteLength) {
+      this.process(new DataView(data.buffer, data.byteOffset + offset, 64));
+      offset += 64;
+    }
+
+    if (offset < data.byteLength) {
+      this.block.set(data.subarray(offset));
+      this.blockLength = data.byteLength - offset;
+    }
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.bytesHashed * 8;
+    const padLength =
+      this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength;
+    const padding = new Uint8Array(padLength + 8);
+    const view = new DataView(padding.buffer);
+    padding[0] = 0x80;
+
+    const high = Math.floor(bitLength / 2 ** 32);
+    const low = bitLength >>> 0;
+    if (this.littleEndian) {
+      view.setUint32(padLength, low, true);
+      view.setUint32(padLength + 4, high, true);
+    } else {
+      view.setUint32(padLength, high);
+      view.setUint32(padLength + 4, low);
+    }
+
+    this.update(padding);
+    return this.output();
+  }
+}
+
+class Sha256 extends BlockHasher {
+  private readonly state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19
+  ]);
+  private readonly w = new Uint32Array(64);
+
+  constructor() {
+    super(false);
+  }
+
+  protected process(block: DataView): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) w[i] = block.getUint32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15]!;
+      const w2 = w[i - 2]!;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[i] = (w[i - 16]! + s0 + w[i - 7]! + s1) | 0;
+    }
+
+    const s = this.state;
+    let a = s[0]!;
+    let b = s[1]!;
+    let c = s[2]!;
+    let d = s[3]!;
+    let e = s[4]!;
+    let f = s[5]!;
+    let g = s[6]!;
+    let h = s[7]!;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + SHA256_K[i]! + w[i]!) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    s[0] = s[0]! + a;
+    s[1] = s[1]! + b;
+    s[2] = s[2]! + c;
+    s[3] = s[3]! + d;
+    s[4] = s[4]! + e;
+    s[5] = s[5]! + f;
+    s[6] = s[6]! + g;
+    s[7] = s[7]! + h;
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(32);
+    const view = new DataView(out.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word));
+    return out;
+  }
+}
+
+class Md5 extends BlockHasher {
+  private readonly state = new Uint32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476
+  ]);
+
+  constructor() {
+    super(true);
+  }
+
+  protected process(block: DataView): void {
+    const s = this.state;
+    let a = s[0]!;
+    let b = s[1]!;
+    let c = s[2]!;
+    let d = s[3]!;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + MD5_K[i]! + block.getUint32(g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotl(f, MD5_SHIFTS[i]!)) | 0;
+    }
+
+    s[0] = s[0]! + a;
+    s[1] = s[1]! + b;
+    s[2] = s[2]! + c;
+    s[3] = s[3]! + d;
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(16);
+    const view = new DataView(out.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word, true));
+    return out;
+  }
+}
+
+class Crc32c implements Hasher {
+  private crc = 0xffffffff;
+
+  update(data: Uint8Array): void {
+    let crc = this.crc;
+    for (const byte of data) {
+      crc = CRC32C_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+    }
+    this.crc = crc;
+  }
+
+  digest(): Uint8Array {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, (this.crc ^ 0xffffffff) >>> 0);
+    return out;
+  }
+}
+
+/**
+ * Creates an incremental hasher for a checksum algorithm.
+ * Implemented in plain TypeScript so it runs in every environment and on streams.
+ * @param algorithm - The checksum algorithm.
+ * @returns A new hasher.
+ */
+export function createHasher(algorithm: ChecksumAlgorithm): Hasher {
+  switch (algorithm) {
+    case "sha256":
+      return new Sha256();
+    case "md5":
+      return new Md5();
+    case "crc32c":
+      return new Crc32c();
+  }
+}
+
+/**
+ * Computes checksums over a body in a single pass, reading streams chunk by chunk.
+ * SHA-256 of buffers and Blobs uses `crypto.subtle` when available, which is much
+ * faster; Blobs are then read in full. Streams always use the incremental hasher.
+ * @param body - The data to hash.
+ * @param algorithms - The checksum algorithms to compute.
+ * @param onChunk - Optional callback receiving each chunk as it is hashed.
+ * @returns The base64-encoded digests, by algorithm.
+ */
+export async function computeChecksums(
+  body: Blob | ArrayBuffer | ArrayBufferView | ReadableStream<Uint8Array>,
+  algorithms: readonly ChecksumAlgorithm[],
+  onChunk?: (chunk: Uint8Array) => void
+): Promise<UploadChecksums> {
+  const subtle = globalThis.crypto?.subtle;
+  if (
+    subtle &&
+    algorithms.includes("sha256") &&
+    (body instanceof Blob ||
+      body instanceof ArrayBuffer ||
+      ArrayBuffer.isView(body))
+  ) {
+    const buffer =
+      body instanceof Blob
+        ? await body.arrayBuffer()
+        : ArrayBuffer.isView(body)
+          ? viewToArrayBuffer(body)
+          : body;
+    const others = algorithms.filter((algorithm) => algorithm !== "sha256");
+    const [sha256, checksums] = await Promise.all([
+      subtle.digest("SHA-256", buffer),
+      computeChecksums(buffer, others, onChunk)
+    ]);
+    checksums.sha256 = encodeBase64(new Uint8Array(sha256));
+    return checksums;
+  }
+
+  const hashers = algorithms.map(
+    (algorithm) => [algorithm, createHasher(algorithm)] as const
+  );
+  const update = (chunk: Uint8Array) => {
+    for (const [, hasher] of hashers) hasher.update(chunk);
+    onChunk?.(chunk);
+  };
+
+  if (body instanceof ArrayBuffer) {
+    update(new Uint8Array(body));
+  } else if (ArrayBuffer.isView(body)) {
+    update(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  } else {
+    const reader = (body instanceof Blob ? body.stream() : body).getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      update(value);
+    }
+  }
+
+  const checksums: UploadChecksums = {};
+  for (const [algorithm, hasher] of hashers) {
+    checksums[algorithm] = encodeBase64(hasher.digest());
+  }
+  return checksums;
+}
+
+/**
+ * Builds the request headers that carry checksums on a signed PUT.
+ * MD5 is sent as `Content-MD5`; other algorithms as `x-amz-checksum-*`.
+ * @param checksums - The base64-encoded digests, by algorithm.
+ * @returns The checksum headers.
+ */
+export function getChecksumHeaders(
+  checksums: UploadChecksums
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [algorithm, value] of Object.entries(checksums)) {
+    if (value)
+      headers[CHECKSUM_HEADERS[algorithm as ChecksumAlgorithm]] = value;
+  }
+  return headers;
+}
+
+/**
+ * Reads the checksums carried by the headers of a PUT request.
+ * @param headers - The request headers.
+ * @returns The base64-encoded digests, by algorithm.
+ */
+export function readChecksumHeaders(headers: Headers): UploadChecksums {
+  const checksums: UploadChecksums = {};
+  for (const [algorithm, header] of Object.entries(CHECKSUM_HEADERS)) {
+    const value = headers.get(header);
+    if (value) checksums[algorithm as ChecksumAlgorithm] = value;
+  }
+  return checksums;
+}
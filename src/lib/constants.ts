@@ -1,2 +1,11 @@
 export const API_BASE_URL = "https://api.nonefivem.com";
 export const DEFAULT_BASE_PATH = "/cloud";
+
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_.-]+$/;
+export const METADATA_MAX_KEYS = 50;
+export const METADATA_MAX_KEY_LENGTH = 128;
+export const METADATA_MAX_VALUE_LENGTH = 1024;
+export const METADATA_MAX_SIZE = 8 * 1024;
+
+export const IMAGE_MAX_DIMENSION = 8192;
+export const IMAGE_MAX_DPR = 4;
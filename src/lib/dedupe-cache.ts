@@ -0,0 +1,37 @@
+import type { DedupeCache, UploadResponse } from "@/types";
+
+/**
+ * Keeps the most recently used deduplicated files in memory, evicting the least
+ * recently used once `maxEntries` is reached.
+ */
+export class LruDedupeCache implements DedupeCache {
+  private readonly entries = new Map<string, UploadResponse>();
+
+  /**
+   * @param maxEntries - The maximum number of cached files.
+   */
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  get(key: string): UploadResponse | undefined {
+    const response = this.entries.get(key);
+    if (response) {
+      // Re-inserting moves the key to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, response);
+    }
+    return response;
+  }
+
+  set(key: string, response: UploadResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, response);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
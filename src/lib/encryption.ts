@@ -0,0 +1,422 @@
+import type {
+  EncryptionOptions,
+  FileMetadata,
+  KeyProvider,
+  WrappedKey
+} from "@/types";
+import { NoCloudAPIError, NoCloudError } from "./errors";
+import { concatBytes, readAll, viewToArrayBuffer } from "./streams";
+import { decodeBase64, encodeBase64 } from "./utils";
+
+/**
+ * Algorithm recorded in the metadata of encrypted files.
+ */
+export const ENCRYPTION_ALGORITHM = "AES-256-GCM";
+
+/**
+ * Metadata keys holding the parameters needed to decrypt a file.
+ */
+export const ENCRYPTION_METADATA_KEYS = {
+  algorithm: "nocloud.enc.alg",
+  keyId: "nocloud.enc.kid",
+  wrappedKey: "nocloud.enc.key",
+  iv: "nocloud.enc.iv",
+  chunkSize: "nocloud.enc.chunk",
+  contentType: "nocloud.enc.type",
+  size: "nocloud.enc.size"
+} as const;
+
+const DATA_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const MIN_CHUNK_SIZE = 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Parameters read from the metadata of an encrypted file.
+ */
+export interface EncryptionInfo {
+  /**
+   * The wrapped data key.
+   */
+  wrapped: WrappedKey;
+  /**
+   * The base IV; each chunk's IV is derived from it and the chunk index.
+   */
+  iv: Uint8Array;
+  /**
+   * Bytes of plaintext per chunk.
+   */
+  chunkSize: number;
+  /**
+   * The MIME type of the plaintext.
+   */
+  contentType: string;
+  /**
+   * The size of the plaintext in bytes.
+   */
+  size: number;
+}
+
+/**
+ * Result of encrypting a body.
+ */
+export interface EncryptedBody<T> {
+  /**
+   * The ciphertext.
+   */
+  body: T;
+  /**
+   * The size of the ciphertext in bytes.
+   */
+  size: number;
+  /**
+   * The metadata entries needed to decrypt the body.
+   */
+  metadata: FileMetadata;
+}
+
+/**
+ * Wraps data keys with an AES-GCM key held in memory, e.g. one derived from a secret.
+ * Use a custom `KeyProvider` to keep wrapping keys in a KMS instead.
+ * @example
+ * ```ts
+ * const key = await crypto.subtle.importKey("raw", secret, "AES-GCM", false, ["encrypt", "decrypt"]);
+ * await cloud.storage.upload(file, undefined, {
+ *   encryption: { keyProvider: new AesKeyProvider(key, { keyId: "2024-01" }) }
+ * });
+ * ```
+ */
+export class AesKeyProvider implements KeyProvider {
+  private readonly keyId: string;
+  private readonly keys: Map<string, CryptoKey>;
+
+  /**
+   * @param key - The AES-GCM key that wraps new data keys. Must allow `encrypt` and `decrypt`.
+   * @param options - The ID of `key`, and earlier keys by ID so files wrapped before a rotation can still be read.
+   */
+  constructor(
+    key: CryptoKey,
+    options: { keyId?: string; previousKeys?: Record<string, CryptoKey> } = {}
+  ) {
+    this.keyId = options.keyId ?? "default";
+    this.keys = new Map(Object.entries(options.previousKeys ?? {}));
+    this.keys.set(this.keyId, key);
+  }
+
+  async wrapKey(dataKey: Uint8Array): Promise<WrappedKey> {
+    const subtle = getSubtleCrypto();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const wrapped = await subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(this.keyId)
+      },
+      this.keys.get(this.keyId)!,
+      viewToArrayBuffer(dataKey)
+    );
+    return {
+      keyId: this.keyId,
+      wrappedKey: encodeBase64(
+        new Uint8Array(concatBytes([iv, new Uint8Array(wrapped)]))
+      )
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Uint8Array> {
+    const key = this.keys.get(wrapped.keyId);
+    if (!key) throw new Error(`Unknown key ID "${wrapped.keyId}"`);
+    const data = decodeBase64(wrapped.wrappedKey);
+    const dataKey = await getSubtleCrypto().decrypt(
+      {
+        name: "AES-GCM",
+        iv: data.slice(0, IV_LENGTH),
+        additionalData: new TextEncoder().encode(wrapped.keyId)
+      },
+      key,
+      data.slice(IV_LENGTH)
+    );
+    return new Uint8Array(dataKey);
+  }
+}
+
+/**
+ * Returns the size of a body after encryption.
+ * @param size - The size of the plaintext in bytes.
+ * @param chunkSize - Bytes of plaintext per chunk.
+ * @returns The size of the ciphertext in bytes.
+ */
+export function getEncryptedSize(
+  size: number,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): number {
+  return size + Math.max(1, Math.ceil(size / chunkSize)) * TAG_LENGTH;
+}
+
+/**
+ * Encrypts a body held in memory.
+ * @param body - The plaintext.
+ * @param contentType - The MIME type of the plaintext, restored on decryption.
+ * @param options - The key provider and chunk size.
+ * @returns {Promise<EncryptedBody<ArrayBuffer>>} The ciphertext and its metadata.
+ * @throws {NoCloudAPIError} If the options are invalid, WebCrypto is unavailable, or the key cannot be wrapped.
+ */
+export async function encryptBody(
+  body: Blob | ArrayBuffer,
+  contentType: string,
+  options: EncryptionOptions
+): Promise<EncryptedBody<ArrayBuffer>> {
+  const blob = body instanceof ArrayBuffer ? new Blob([body]) : body;
+  const encrypted = await encryptStream(
+    blob.stream(),
+    contentType,
+    blob.size,
+    options
+  );
+  return { ...encrypted, body: await readAll(encrypted.body) };
+}
+
+/**
+ * Encrypts a stream chunk by chunk, so memory use is bounded by the chunk size.
+ * @param stream - The plaintext.
+ * @param contentType - The MIME type of the plaintext, restored on decryption.
+ * @param size - The size of the plaintext in bytes.
+ * @param options - The key provider and chunk size.
+ * @returns {Promise<EncryptedBody<ReadableStream<Uint8Array>>>} The ciphertext and its metadata.
+ * @throws {NoCloudAPIError} If the options are invalid, WebCrypto is unavailable, or the key cannot be wrapped.
+ */
+export async function encryptStream(
+  stream: ReadableStream<Uint8Array>,
+  contentType: string,
+  size: number,
+  options: EncryptionOptions
+): Promise<EncryptedBody<ReadableStream<Uint8Array>>> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize < MIN_CHUNK_SIZE ||
+    chunkSize > MAX_CHUNK_SIZE
+  ) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `chunkSize must be a whole number of bytes between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`
+    );
+  }
+
+  const subtle = getSubtleCrypto();
+  const dataKey = crypto.getRandomValues(new Uint8Array(DATA_KEY_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  let wrapped: WrappedKey;
+  try {
+    wrapped = await options.keyProvider.wrapKey(dataKey);
+  } catch (error) {
+    if (NoCloudAPIError.isError(error)) throw error;
+    throw NoCloudAPIError.fromStatus(500, "Failed to wrap the data key", {
+      cause: error
+    });
+  }
+  const key = await subtle.importKey("raw", dataKey, "AES-GCM", false, [
+    "encrypt"
+  ]);
+
+  const keys = ENCRYPTION_METADATA_KEYS;
+  return {
+    body: stream.pipeThrough(
+      createChunkTransform(chunkSize, async (chunk, index, final) =>
+        subtle.encrypt(getChunkParams(iv, index, final), key, chunk)
+      )
+    ),
+    size: getEncryptedSize(size, chunkSize),
+    metadata: {
+      [keys.algorithm]: ENCRYPTION_ALGORITHM,
+      [keys.keyId]: wrapped.keyId,
+      [keys.wrappedKey]: wrapped.wrappedKey,
+      [keys.iv]: encodeBase64(iv),
+      [keys.chunkSize]: chunkSize,
+      [keys.contentType]: contentType,
+      [keys.size]: size
+    }
+  };
+}
+
+/**
+ * Reads the encryption parameters from a file's metadata.
+ * @param metadata - The file's metadata.
+ * @returns The parameters, or null if the file was not encrypted.
+ * @throws {NoCloudAPIError} If the parameters are malformed or use an unsupported algorithm.
+ */
+export function readEncryptionInfo(
+  metadata: FileMetadata
+): EncryptionInfo | null {
+  const keys = ENCRYPTION_METADATA_KEYS;
+  const algorithm = metadata[keys.algorithm];
+  if (algorithm === undefined) return null;
+  if (algorithm !== ENCRYPTION_ALGORITHM) {
+    throw NoCloudAPIError.fromCode(
+      NoCloudError.DECRYPTION_FAILED,
+      `Unsupported encryption algorithm "${algorithm}"`
+    );
+  }
+
+  const keyId = metadata[keys.keyId];
+  const wrappedKey = metadata[keys.wrappedKey];
+  const iv = metadata[keys.iv];
+  const chunkSize = Number(metadata[keys.chunkSize]);
+  const size = Number(metadata[keys.size]);
+  if (
+    typeof keyId !== "string" ||
+    typeof wrappedKey !== "string" ||
+    typeof iv !== "string" ||
+    !Number.isInteger(chunkSize) ||
+    chunkSize < 1 ||
+    !Number.isInteger(size) ||
+    size < 0
+  ) {
+    throw NoCloudAPIError.fromCode(
+      NoCloudError.DECRYPTION_FAILED,
+      "Encryption metadata is missing or malformed"
+    );
+  }
+
+  const contentType = metadata[keys.contentType];
+  return {
+    wrapped: { keyId, wrappedKey },
+    iv: decodeBase64(iv),
+    chunkSize,
+    contentType:
+      typeof contentType === "string"
+        ? contentType
+        : "application/octet-stream",
+    size
+  };
+}
+
+/**
+ * Decrypts a stream chunk by chunk, verifying each chunk's authentication tag.
+ * Reordered, modified or truncated content makes the stream error with `DECRYPTION_FAILED`.
+ * @param stream - The ciphertext.
+ * @param info - The parameters read with `readEncryptionInfo`.
+ * @param keyProvider - Unwraps the data key.
+ * @returns {Promise<ReadableStream<Uint8Array>>} The plaintext.
+ * @throws {NoCloudAPIError} If WebCrypto is unavailable or the data key cannot be unwrapped.
+ */
+export async function decryptStream(
+  stream: ReadableStream<Uint8Array>,
+  info: EncryptionInfo,
+  keyProvider: KeyProvider
+): Promise<ReadableStream<Uint8Array>> {
+  const subtle = getSubtleCrypto();
+  let key: CryptoKey;
+  try {
+    const dataKey = await keyProvider.unwrapKey(info.wrapped);
+    key = await subtle.importKey(
+      "raw",
+      viewToArrayBuffer(dataKey),
+      "AES-GCM",
+      false,
+      ["decrypt"]
+    );
+  } catch (error) {
+    if (NoCloudAPIError.isError(error)) throw error;
+    throw NoCloudAPIError.fromCode(
+      NoCloudError.DECRYPTION_FAILED,
+      "Failed to unwrap the data key",
+      { cause: error }
+    );
+  }
+
+  return stream.pipeThrough(
+    createChunkTransform(
+      info.chunkSize + TAG_LENGTH,
+      async (chunk, index, final) => {
+        try {
+          return await subtle.decrypt(
+            getChunkParams(info.iv, index, final),
+            key,
+            chunk
+          );
+        } catch (error) {
+          throw NoCloudAPIError.fromCode(
+            NoCloudError.DECRYPTION_FAILED,
+            "Encrypted content failed integrity verification",
+            { cause: error }
+          );
+        }
+      }
+    )
+  );
+}
+
+function getSubtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "Encryption requires WebCrypto, which is unavailable in this environment"
+    );
+  }
+  return subtle;
+}
+
+/**
+ * Returns the AES-GCM parameters of a chunk. The IV is the base IV with the chunk
+ * index XORed into its last 4 bytes, and the index and final flag are authenticated,
+ * so chunks cannot be reordered, dropped or appended.
+ */
+function getChunkParams(
+  baseIv: Uint8Array,
+  index: number,
+  final: boolean
+): AesGcmParams {
+  const iv = baseIv.slice();
+  const view = new DataView(iv.buffer);
+  view.setUint32(IV_LENGTH - 4, view.getUint32(IV_LENGTH - 4) ^ index);
+
+  const additionalData = new Uint8Array(5);
+  new DataView(additionalData.buffer).setUint32(0, index);
+  additionalData[4] = final ? 1 : 0;
+  return { name: "AES-GCM", iv, additionalData };
+}
+
+/**
+ * Splits a stream into chunks of `chunkSize` bytes and maps each chunk.
+ * The last chunk, which may be shorter or empty, is the only one marked final.
+ */
+function createChunkTransform(
+  chunkSize: number,
+  process: (
+    chunk: ArrayBuffer,
+    index: number,
+    final: boolean
+  ) => Promise<ArrayBuffer>
+): TransformStream<Uint8Array, Uint8Array> {
+  let pending = new Uint8Array(0);
+  let index = 0;
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      const data = pending.length
+        ? new Uint8Array(concatBytes([pending, chunk]))
+        : chunk;
+      let offset = 0;
+      // A chunk is only known not to be the last once more bytes follow it
+      while (data.length - offset > chunkSize) {
+        const output = await process(
+          viewToArrayBuffer(data.subarray(offset, offset + chunkSize)),
+          index++,
+          false
+        );
+        controller.enqueue(new Uint8Array(output));
+        offset += chunkSize;
+      }
+      pending = data.slice(offset);
+    },
+    async flush(controller) {
+      controller.enqueue(
+        new Uint8Array(await process(pending.buffer, index, true))
+      );
+    }
+  });
+}
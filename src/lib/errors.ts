@@ -1,21 +1,88 @@
 export enum NoCloudError {
   INVALID_API_KEY = "INVALID_API_KEY",
   BAD_REQUEST = "BAD_REQUEST",
+  FORBIDDEN = "FORBIDDEN",
+  CONFLICT = "CONFLICT",
+  PAYLOAD_TOO_LARGE = "PAYLOAD_TOO_LARGE",
+  UNSUPPORTED_MEDIA_TYPE = "UNSUPPORTED_MEDIA_TYPE",
   RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED",
   RESOURCE_NOT_FOUND = "RESOURCE_NOT_FOUND",
+  NOT_MODIFIED = "NOT_MODIFIED",
+  INVALID_ENCODING = "INVALID_ENCODING",
+  SIGNED_URL_EXPIRED = "SIGNED_URL_EXPIRED",
+  DECRYPTION_FAILED = "DECRYPTION_FAILED",
   INTERNAL_SERVER_ERROR = "INTERNAL_SERVER_ERROR",
+  SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  ABORTED = "ABORTED",
+  TIMEOUT = "TIMEOUT",
   UNKNOWN_ERROR = "UNKNOWN_ERROR"
 }
 
+/**
+ * Additional information attached to a NoCloudAPIError.
+ */
+export interface NoCloudAPIErrorOptions {
+  /**
+   * The request ID reported by the server, useful when contacting support.
+   */
+  requestId?: string;
+  /**
+   * Additional error details reported by the server, such as validation errors.
+   */
+  details?: unknown;
+  /**
+   * Whether retrying the request may succeed. Derived from the code and status if omitted.
+   */
+  retryable?: boolean;
+  /**
+   * The underlying error that caused this error.
+   */
+  cause?: unknown;
+}
+
+const RETRYABLE_CODES = new Set<NoCloudError>([
+  NoCloudError.RATE_LIMIT_EXCEEDED,
+  NoCloudError.INTERNAL_SERVER_ERROR,
+  NoCloudError.SERVICE_UNAVAILABLE,
+  NoCloudError.NETWORK_ERROR,
+  NoCloudError.TIMEOUT
+]);
+
 export class NoCloudAPIError extends Error {
+  /**
+   * The request ID reported by the server, if any.
+   */
+  public readonly requestId?: string;
+  /**
+   * Additional error details reported by the server, if any.
+   */
+  public readonly details?: unknown;
+  /**
+   * Whether retrying the request may succeed.
+   */
+  public readonly retryable: boolean;
+
   constructor(
     message: string,
     public readonly status: number,
-    public readonly code: NoCloudError
+    public readonly code: NoCloudError,
+    options: NoCloudAPIErrorOptions = {}
   ) {
-    super(message);
+    super(
+      message,
+      options.cause !== undefined ? { cause: options.cause } : undefined
+    );
     this.name = "NoCloudAPIError";
     this.code = code;
+    this.requestId = options.requestId;
+    this.details = options.details;
+    this.retryable =
+      options.retryable ??
+      (RETRYABLE_CODES.has(code) ||
+        status === 408 ||
+        status === 429 ||
+        (status >= 500 && status !== 501));
   }
 
   /**
@@ -37,30 +104,84 @@ export class NoCloudAPIError extends Error {
     return true;
   }
 
+  /**
+   * Checks if the given value is a known NoCloudError code.
+   * @param value - The value to check.
+   * @returns True if the value is a NoCloudError code, false otherwise.
+   */
+  static isErrorCode(value: unknown): value is NoCloudError {
+    return (
+      typeof value === "string" &&
+      (Object.values(NoCloudError) as string[]).includes(value)
+    );
+  }
+
+  /**
+   * Converts any thrown value to a NoCloudAPIError. NoCloudAPIErrors are returned as-is;
+   * anything else becomes an UNKNOWN_ERROR with the original value as `cause`.
+   * @param error - The thrown value.
+   * @returns A NoCloudAPIError instance.
+   */
+  static fromError(error: unknown): NoCloudAPIError {
+    if (NoCloudAPIError.isError(error)) return error;
+    return NoCloudAPIError.fromCode(
+      NoCloudError.UNKNOWN_ERROR,
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+
   /**
    * Creates a NoCloudAPIError instance based on the provided error code.
    * @param code - The error code.
    * @param message - The error message.
+   * @param options - Optional request ID, details, retryability and cause.
    * @returns A NoCloudAPIError instance corresponding to the error code.
    */
-  static fromCode(code: NoCloudError, message: string): NoCloudAPIError {
+  static fromCode(
+    code: NoCloudError,
+    message: string,
+    options?: NoCloudAPIErrorOptions
+  ): NoCloudAPIError {
     switch (code) {
       case NoCloudError.BAD_REQUEST:
-        return new NoCloudAPIError(message, 400, code);
+      case NoCloudError.INVALID_ENCODING:
+      case NoCloudError.DECRYPTION_FAILED:
+        return new NoCloudAPIError(message, 400, code, options);
       case NoCloudError.INVALID_API_KEY:
-        return new NoCloudAPIError(message, 401, code);
+        return new NoCloudAPIError(message, 401, code, options);
+      case NoCloudError.FORBIDDEN:
+      case NoCloudError.SIGNED_URL_EXPIRED:
+        return new NoCloudAPIError(message, 403, code, options);
+      case NoCloudError.CONFLICT:
+        return new NoCloudAPIError(message, 409, code, options);
+      case NoCloudError.PAYLOAD_TOO_LARGE:
+        return new NoCloudAPIError(message, 413, code, options);
+      case NoCloudError.UNSUPPORTED_MEDIA_TYPE:
+        return new NoCloudAPIError(message, 415, code, options);
       case NoCloudError.RATE_LIMIT_EXCEEDED:
-        return new NoCloudAPIError(message, 429, code);
+        return new NoCloudAPIError(message, 429, code, options);
       case NoCloudError.RESOURCE_NOT_FOUND:
-        return new NoCloudAPIError(message, 404, code);
+        return new NoCloudAPIError(message, 404, code, options);
+      case NoCloudError.NOT_MODIFIED:
+        return new NoCloudAPIError(message, 304, code, options);
+      case NoCloudError.SERVICE_UNAVAILABLE:
+        return new NoCloudAPIError(message, 503, code, options);
+      case NoCloudError.NETWORK_ERROR:
+        return new NoCloudAPIError(message, 0, code, options);
+      case NoCloudError.ABORTED:
+        return new NoCloudAPIError(message, 499, code, options);
+      case NoCloudError.TIMEOUT:
+        return new NoCloudAPIError(message, 408, code, options);
       case NoCloudError.INTERNAL_SERVER_ERROR:
       case NoCloudError.UNKNOWN_ERROR:
-        return new NoCloudAPIError(message, 500, code);
+        return new NoCloudAPIError(message, 500, code, options);
       default:
         return new NoCloudAPIError(
           message,
           500,
-          NoCloudError.INTERNAL_SERVER_ERROR
+          NoCloudError.INTERNAL_SERVER_ERROR,
+          options
         );
     }
   }
@@ -69,38 +190,99 @@ export class NoCloudAPIError extends Error {
    * Creates a NoCloudAPIError instance based on the provided HTTP status code.
    * @param status - The HTTP status code.
    * @param message - The error message.
+   * @param options - Optional request ID, details, retryability and cause.
    * @returns A NoCloudAPIError instance corresponding to the HTTP status code.
    */
-  static fromStatus(status: number, message: string): NoCloudAPIError {
+  static fromStatus(
+    status: number,
+    message: string,
+    options?: NoCloudAPIErrorOptions
+  ): NoCloudAPIError {
     switch (status) {
       case 400:
-        return new NoCloudAPIError(message, status, NoCloudError.BAD_REQUEST);
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.BAD_REQUEST,
+          options
+        );
       case 401:
         return new NoCloudAPIError(
           message,
           status,
-          NoCloudError.INVALID_API_KEY
+          NoCloudError.INVALID_API_KEY,
+          options
+        );
+      case 403:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.FORBIDDEN,
+          options
+        );
+      case 409:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.CONFLICT,
+          options
+        );
+      case 413:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.PAYLOAD_TOO_LARGE,
+          options
+        );
+      case 415:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.UNSUPPORTED_MEDIA_TYPE,
+          options
         );
       case 429:
         return new NoCloudAPIError(
           message,
           status,
-          NoCloudError.RATE_LIMIT_EXCEEDED
+          NoCloudError.RATE_LIMIT_EXCEEDED,
+          options
         );
       case 404:
         return new NoCloudAPIError(
           message,
           status,
-          NoCloudError.RESOURCE_NOT_FOUND
+          NoCloudError.RESOURCE_NOT_FOUND,
+          options
+        );
+      case 304:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.NOT_MODIFIED,
+          options
         );
       case 500:
         return new NoCloudAPIError(
           message,
           status,
-          NoCloudError.INTERNAL_SERVER_ERROR
+          NoCloudError.INTERNAL_SERVER_ERROR,
+          options
+        );
+      case 503:
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.SERVICE_UNAVAILABLE,
+          options
         );
       default:
-        return new NoCloudAPIError(message, status, NoCloudError.UNKNOWN_ERROR);
+        return new NoCloudAPIError(
+          message,
+          status,
+          NoCloudError.UNKNOWN_ERROR,
+          options
+        );
     }
   }
 }
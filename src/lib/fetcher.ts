@@ -1,25 +1,87 @@
+import type {
+  FetchFunction,
+  Interceptor,
+  LogLevel,
+  Logger,
+  RequestContext,
+  RetryContext,
+  RetryPolicy,
+  Span,
+  SpanAttributes,
+  Tracer,
+} from "@/types";
 import { API_BASE_URL, DEFAULT_BASE_PATH } from "./constants";
-import { withRetry } from "./utils";
+import { NoCloudAPIError, NoCloudError } from "./errors";
+import { runInterceptors } from "./interceptors";
+import { createLogger, createLoggingInterceptor, redactUrl } from "./logger";
+import {
+  fetchWithRetry,
+  resolveRetryPolicy,
+  type ResolvedRetryPolicy,
+  type RetryRequestOptions,
+} from "./retry";
+import { withTimeout } from "./timeout";
+import { runInSpan } from "./tracing";
+import { createAbortError } from "./upload";
 
 interface FetchOptionsBase {
   retries?: number;
   retryDelayMs?: number;
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number;
+  deadlineMs?: number;
 }
 
 interface FetcherOptions extends FetchOptionsBase {
-  apiKey: string;
+  /**
+   * The API key sent with API requests. Omitted by clients that only upload to signed URLs.
+   */
+  apiKey?: string;
   baseUrl?: string;
   basePath?: string;
+  fetch?: FetchFunction;
+  interceptors?: Interceptor[];
+  logger?: Logger;
+  logLevel?: LogLevel;
+  tracer?: Tracer;
 }
 
-export type FetchOptions = RequestInit & FetchOptionsBase;
+export interface RequestAttemptOptions {
+  kind?: RequestContext["kind"];
+  attempt?: number;
+  timeoutMs?: number;
+  /**
+   * Span that receives the attempt number and status code of the request.
+   */
+  span?: Span;
+}
+
+export type FetchOptions = RequestInit &
+  FetchOptionsBase & {
+    /**
+     * Marks a request with a non-idempotent method as safe to retry.
+     */
+    idempotent?: boolean;
+    /**
+     * Span that receives the attempt number and status code of each attempt.
+     */
+    span?: Span;
+  };
 
 export class Fetcher {
   private readonly baseUrl: string;
   private readonly basePath: string;
-  private readonly apiKey: string;
-  private readonly retryCount: number;
-  private readonly retryDelayMs: number;
+  private readonly apiKey?: string;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly fetchImpl?: FetchFunction;
+  private readonly interceptors: Interceptor[];
+  private readonly timeoutMs?: number;
+  private readonly deadlineMs?: number;
+  private readonly tracer?: Tracer;
+  /**
+   * The configured logger, filtered by level. Discards every record if none is configured.
+   */
+  readonly logger: Logger;
 
   constructor(options: FetcherOptions) {
     this.apiKey = options.apiKey;
@@ -28,33 +90,228 @@ export class Fetcher {
       /^\/+|\/+$/g,
       "",
     );
-    this.retryCount = options.retries ?? 3;
-    this.retryDelayMs = options.retryDelayMs ?? 1000;
-
-    if (!this.apiKey) {
-      throw new Error("API key is required");
-    }
+    this.retryPolicy = resolveRetryPolicy(
+      { retries: options.retries, baseDelayMs: options.retryDelayMs },
+      options.retryPolicy,
+    );
+    this.fetchImpl = options.fetch;
+    this.logger = createLogger(options.logger, options.logLevel);
+    // Logged last, so records show the request as sent after other interceptors
+    this.interceptors = [
+      ...(options.interceptors ?? []),
+      ...(options.logger ? [createLoggingInterceptor(this.logger)] : []),
+    ];
+    this.timeoutMs = options.timeoutMs;
+    this.deadlineMs = options.deadlineMs;
+    this.tracer = options.tracer;
   }
 
-  private buildUrl(endpoint: string): string {
+  /**
+   * Resolves an API endpoint to an absolute URL.
+   */
+  buildUrl(endpoint: string): string {
     const path = this.basePath ? `${this.basePath}/${endpoint}` : endpoint;
     return `${this.baseUrl}/${path}`;
   }
 
+  /**
+   * Performs a request with the configured transport, interceptors and per-attempt timeout,
+   * without authentication or retries.
+   * Used for requests outside the API, such as uploads to signed URLs.
+   */
+  request(
+    url: string,
+    init: RequestInit = {},
+    context: RequestAttemptOptions = {},
+  ): Promise<Response> {
+    const { headers, signal, ...rest } = init;
+    const transport: FetchFunction =
+      this.fetchImpl ?? ((input, init) => fetch(input, init));
+
+    return withTimeout(
+      signal ?? undefined,
+      context.timeoutMs ?? this.timeoutMs,
+      async (signal) => {
+        const attempt = context.attempt ?? 0;
+        try {
+          const response = await runInterceptors(transport, this.interceptors, {
+            url,
+            init: { ...rest, signal },
+            headers: new Headers(headers),
+            kind: context.kind ?? "external",
+            attempt,
+            startedAt: Date.now(),
+            state: {},
+          });
+          context.span?.setAttributes({
+            attempt,
+            "http.status_code": response.status,
+          });
+          return response;
+        } catch (error) {
+          context.span?.setAttributes({ attempt });
+          if (signal?.aborted || NoCloudAPIError.isError(error)) {
+            throw error;
+          }
+          throw NoCloudAPIError.fromCode(
+            NoCloudError.NETWORK_ERROR,
+            `Network request failed: ${error instanceof Error ? error.message : String(error)}`,
+            { cause: error },
+          );
+        }
+      },
+    );
+  }
+
+  /**
+   * Performs a request outside the API, retrying failed attempts according to the configured retry policy.
+   * `request` is called once per attempt, so bodies that can only be read once must be recreated.
+   */
+  async retry(
+    request: (attempt: number) => Promise<Response>,
+    options: RetryRequestOptions & { retryPolicy?: RetryPolicy; url?: string },
+  ): Promise<Response> {
+    const { retryPolicy, url, ...retryOptions } = options;
+    try {
+      return await fetchWithRetry(
+        request,
+        resolveRetryPolicy(this.retryPolicy, retryPolicy),
+        {
+          ...retryOptions,
+          onRetry: (context, delayMs) => {
+            this.logRetry(context, delayMs, url && redactUrl(url, "external"));
+            retryOptions.onRetry?.(context, delayMs);
+          },
+        },
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw getAbortError(options.signal);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Runs an operation in a span reported to the configured tracer, and logs its outcome.
+   * @param name - The operation name.
+   * @param attributes - The attributes known when the operation starts.
+   * @param fn - The operation, receiving its span.
+   * @param parent - The enclosing span, for child operations.
+   */
+  trace<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+    parent?: Span,
+  ): Promise<T> {
+    return runInSpan(this.tracer, this.logger, name, attributes, fn, parent);
+  }
+
+  /**
+   * Logs a retried attempt.
+   */
+  private logRetry(
+    context: RetryContext,
+    delayMs: number,
+    url: string | undefined,
+  ): void {
+    const { error, response } = context;
+    this.logger.warn("Retrying request", {
+      method: context.method,
+      url,
+      attempt: context.attempt,
+      status: response?.status,
+      error:
+        error === undefined
+          ? undefined
+          : NoCloudAPIError.fromError(error).message,
+      delayMs: Math.round(delayMs),
+    });
+  }
+
+  /**
+   * Runs an operation with an overall time limit, defaulting to the configured deadline.
+   * The operation receives a signal that aborts when the caller's signal aborts or the deadline is reached.
+   */
+  withDeadline<T>(
+    signal: AbortSignal | undefined,
+    deadlineMs: number | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>,
+  ): Promise<T> {
+    return withTimeout(signal, deadlineMs ?? this.deadlineMs, fn);
+  }
+
   fetch(endpoint: string, options: FetchOptions = {}): Promise<Response> {
+    if (!this.apiKey) {
+      return Promise.reject(
+        NoCloudAPIError.fromCode(
+          NoCloudError.INVALID_API_KEY,
+          "API key is required",
+        ),
+      );
+    }
+    const apiKey = this.apiKey;
     const url = this.buildUrl(endpoint);
+    const {
+      retries,
+      retryDelayMs,
+      retryPolicy,
+      idempotent,
+      timeoutMs,
+      deadlineMs,
+      span,
+      ...requestInit
+    } = options;
+    const policy = resolveRetryPolicy(
+      this.retryPolicy,
+      { retries, baseDelayMs: retryDelayMs },
+      retryPolicy,
+    );
 
-    return withRetry(
-      () =>
-        fetch(url, {
-          ...options,
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            ...(options.headers || {}),
-          },
-        }),
-      options.retries ?? this.retryCount,
-      options.retryDelayMs ?? this.retryDelayMs,
+    return this.withDeadline(
+      requestInit.signal ?? undefined,
+      deadlineMs,
+      async (signal) => {
+        try {
+          return await fetchWithRetry(
+            (attempt) => {
+              const headers = new Headers(requestInit.headers);
+              if (!headers.has("Authorization")) {
+                headers.set("Authorization", `Bearer ${apiKey}`);
+              }
+              return this.request(
+                url,
+                { ...requestInit, headers, signal },
+                { kind: "api", attempt, timeoutMs, span },
+              );
+            },
+            policy,
+            {
+              method: requestInit.method ?? "GET",
+              idempotent,
+              signal,
+              onRetry: (context, delayMs) =>
+                this.logRetry(context, delayMs, url),
+            },
+          );
+        } catch (error) {
+          if (signal?.aborted) {
+            throw getAbortError(signal);
+          }
+          throw error;
+        }
+      },
     );
   }
 }
+
+/**
+ * Returns the error for an aborted operation: the TIMEOUT error of an expired
+ * operation deadline, or an ABORTED error.
+ */
+function getAbortError(signal: AbortSignal): NoCloudAPIError {
+  return NoCloudAPIError.isError(signal.reason, NoCloudError.TIMEOUT)
+    ? signal.reason
+    : createAbortError();
+}
@@ -0,0 +1,310 @@
+import { concatBytes } from "./streams";
+
+/**
+ * Width and height of an image in pixels, as stored (before EXIF orientation is applied).
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Result of stripping metadata from an image.
+ */
+export interface StrippedImage {
+  /**
+   * The image without metadata.
+   */
+  data: Uint8Array;
+  /**
+   * The EXIF orientation of the original image, from 1 to 8. 1 if absent.
+   */
+  orientation: number;
+}
+
+const ORIENTATION_TAG = 0x0112;
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "iTXt", "zTXt", "tIME"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+/**
+ * Reads the dimensions of a JPEG, PNG or WebP image from its header.
+ * @param data - The image bytes.
+ * @param contentType - The MIME type of the image.
+ * @returns The dimensions, or null if the format is unsupported or the header is malformed.
+ */
+export function readImageSize(
+  data: Uint8Array,
+  contentType: string
+): ImageSize | null {
+  switch (contentType) {
+    case "image/jpeg":
+      return readJpegSize(data);
+    case "image/png":
+      return data.length >= 24
+        ? { width: readUint32BE(data, 16), height: readUint32BE(data, 20) }
+        : null;
+    case "image/webp":
+      return readWebpSize(data);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Removes EXIF, XMP, IPTC and comment metadata from a JPEG, PNG or WebP image.
+ * Image data is copied unchanged. Other formats, and malformed images, are returned as-is.
+ * @param data - The image bytes.
+ * @param contentType - The MIME type of the image.
+ * @param keepOrientation - Whether to keep a JPEG's EXIF orientation, so it is still displayed the right way up.
+ * @returns The stripped image and its original orientation.
+ */
+export function stripImageMetadata(
+  data: Uint8Array,
+  contentType: string,
+  keepOrientation: boolean = true
+): StrippedImage {
+  switch (contentType) {
+    case "image/jpeg":
+      return stripJpegMetadata(data, keepOrientation);
+    case "image/png":
+      return { data: stripPngMetadata(data), orientation: 1 };
+    case "image/webp":
+      return { data: stripWebpMetadata(data), orientation: 1 };
+    default:
+      return { data, orientation: 1 };
+  }
+}
+
+function stripJpegMetadata(
+  data: Uint8Array,
+  keepOrientation: boolean
+): StrippedImage {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return { data, orientation: 1 };
+
+  const kept: Uint8Array[] = [data.subarray(0, 2)];
+  let orientation = 1;
+  let insertAt = 1;
+  let pos = 2;
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) return { data, orientation: 1 };
+    const marker = data[pos + 1]!;
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    // Start of scan or end of image: the rest is image data
+    if (marker === 0xda || marker === 0xd9) {
+      kept.push(data.subarray(pos));
+      break;
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      kept.push(data.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+
+    if (pos + 4 > data.length) return { data, orientation: 1 };
+    const end = pos + 2 + ((data[pos + 2]! << 8) | data[pos + 3]!);
+    if (end > data.length) return { data, orientation: 1 };
+    const segment = data.subarray(pos, end);
+    if (marker === 0xe1) {
+      // APP1: EXIF or XMP
+      orientation = readExifOrientation(segment.subarray(4)) ?? orientation;
+    } else if (marker !== 0xed && marker !== 0xfe) {
+      // Keep everything except APP13 (IPTC) and comments
+      kept.push(segment);
+      if (marker === 0xe0 && kept.length === 2) insertAt = 2;
+    }
+    pos = end;
+  }
+
+  if (keepOrientation && orientation !== 1) {
+    kept.splice(insertAt, 0, createOrientationSegment(orientation));
+  }
+  return { data: concat(kept), orientation };
+}
+
+function stripPngMetadata(data: Uint8Array): Uint8Array {
+  if (data.length < 8 || readUint32BE(data, 0) !== 0x89504e47) return data;
+
+  const kept: Uint8Array[] = [data.subarray(0, 8)];
+  let pos = 8;
+  while (pos + 12 <= data.length) {
+    const end = pos + 12 + readUint32BE(data, pos);
+    if (end > data.length) return data;
+    const type = readAscii(data, pos + 4, 4);
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(data.subarray(pos, end));
+    pos = end;
+  }
+  if (pos !== data.length) return data;
+  return concat(kept);
+}
+
+function stripWebpMetadata(data: Uint8Array): Uint8Array {
+  if (
+    data.length < 12 ||
+    readAscii(data, 0, 4) !== "RIFF" ||
+    readAscii(data, 8, 4) !== "WEBP"
+  ) {
+    return data;
+  }
+
+  const kept: Uint8Array[] = [];
+  let pos = 12;
+  while (pos + 8 <= data.length) {
+    const size = readUint32LE(data, pos + 4);
+    const end = pos + 8 + size + (size % 2);
+    if (end > data.length) return data;
+    const type = readAscii(data, pos, 4);
+    if (!WEBP_METADATA_CHUNKS.has(type)) kept.push(data.subarray(pos, end));
+    pos = end;
+  }
+
+  const header = new Uint8Array(12);
+  header.set(data.subarray(0, 12));
+  const result = concat([header, ...kept]);
+  writeUint32LE(result, 4, result.length - 8);
+  // Clear the EXIF and XMP flags of the extended header
+  if (readAscii(result, 12, 4) === "VP8X" && result.length > 20) {
+    result[20] = result[20]! & ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+  }
+  return result;
+}
+
+function readJpegSize(data: Uint8Array): ImageSize | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let pos = 2;
+  while (pos + 9 <= data.length) {
+    if (data[pos] !== 0xff) return null;
+    const marker = data[pos + 1]!;
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    // Start of frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: (data[pos + 5]! << 8) | data[pos + 6]!,
+        width: (data[pos + 7]! << 8) | data[pos + 8]!
+      };
+    }
+    if (marker === 0xda) return null;
+    pos += 2 + ((data[pos + 2]! << 8) | data[pos + 3]!);
+  }
+  return null;
+}
+
+function readWebpSize(data: Uint8Array): ImageSize | null {
+  if (data.length < 30 || readAscii(data, 8, 4) !== "WEBP") return null;
+
+  switch (readAscii(data, 12, 4)) {
+    case "VP8X":
+      return {
+        width: 1 + (data[24]! | (data[25]! << 8) | (data[26]! << 16)),
+        height: 1 + (data[27]! | (data[28]! << 8) | (data[29]! << 16))
+      };
+    case "VP8 ":
+      return {
+        width: (data[26]! | (data[27]! << 8)) & 0x3fff,
+        height: (data[28]! | (data[29]! << 8)) & 0x3fff
+      };
+    case "VP8L": {
+      const bits = readUint32LE(data, 21);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >>> 14) & 0x3fff) + 1
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads the orientation tag from the payload of an APP1 segment.
+ * Returns null if the payload is not EXIF or has no valid orientation.
+ */
+function readExifOrientation(payload: Uint8Array): number | null {
+  if (!EXIF_HEADER.every((byte, i) => payload[i] === byte)) return null;
+
+  const tiff = payload.subarray(EXIF_HEADER.length);
+  if (tiff.length < 8) return null;
+  const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > tiff.length) return null;
+
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates an APP1 segment holding an EXIF block with only the orientation tag.
+ */
+function createOrientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(EXIF_HEADER, 4);
+  // Big-endian TIFF header, IFD0 at offset 8
+  view.setUint32(10, 0x4d4d002a);
+  view.setUint32(14, 8);
+  view.setUint16(18, 1);
+  view.setUint16(20, ORIENTATION_TAG);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  view.setUint32(32, 0); // No next IFD
+  return segment;
+}
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset]! << 24) |
+      (data[offset + 1]! << 16) |
+      (data[offset + 2]! << 8) |
+      data[offset + 3]!) >>>
+    0
+  );
+}
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset]! |
+      (data[offset + 1]! << 8) |
+      (data[offset + 2]! << 16) |
+      (data[offset + 3]! << 24)) >>>
+    0
+  );
+}
+
+function writeUint32LE(data: Uint8Array, offset: number, value: number): void {
+  new DataView(data.buffer, data.byteOffset).setUint32(offset, value, true);
+}
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  return new Uint8Array(concatBytes(chunks));
+}
@@ -0,0 +1,163 @@
+import type {
+  ImageEncodeRequest,
+  ImageEncoder,
+  ImageUploadTransform
+} from "@/types";
+import { NoCloudAPIError } from "./errors";
+import { readImageSize, stripImageMetadata } from "./image-metadata";
+import { sniffMimeType } from "./mime";
+import { viewToArrayBuffer } from "./streams";
+
+const TRANSFORMABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+const DEFAULT_QUALITY = 85;
+
+/**
+ * Validates image upload transform options.
+ * @param transform - The options to validate.
+ * @throws {NoCloudAPIError} If an option is out of range or unknown.
+ */
+export function validateImageUploadTransform(
+  transform: ImageUploadTransform
+): void {
+  const { maxDimension, format, quality } = transform;
+  if (
+    maxDimension !== undefined &&
+    (!Number.isInteger(maxDimension) || maxDimension < 1)
+  ) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "maxDimension must be a positive whole number of pixels"
+    );
+  }
+  if (format !== undefined && format !== "webp" && format !== "jpeg") {
+    throw NoCloudAPIError.fromStatus(400, `Unknown format "${format}"`);
+  }
+  if (
+    quality !== undefined &&
+    (!Number.isInteger(quality) || quality < 1 || quality > 100)
+  ) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "quality must be a whole number between 1 and 100"
+    );
+  }
+}
+
+/**
+ * Downsizes, re-encodes and strips metadata from a JPEG, PNG or WebP image.
+ * The format is sniffed from the bytes; other content is returned unchanged.
+ * Images are only re-encoded when they exceed `maxDimension` or `format` differs from
+ * the input format; otherwise metadata is stripped without touching the image data.
+ * @param body - The image body.
+ * @param transform - The transform options.
+ * @returns The processed body and its content type, or null if the body is not a supported image.
+ * @throws {NoCloudAPIError} If the options are invalid, re-encoding is needed but no encoder is available, or encoding fails.
+ */
+export async function transformImage(
+  body: Blob | ArrayBuffer,
+  transform: ImageUploadTransform
+): Promise<{ body: ArrayBuffer; contentType: string } | null> {
+  validateImageUploadTransform(transform);
+  const data = new Uint8Array(
+    body instanceof ArrayBuffer ? body : await body.arrayBuffer()
+  );
+  const contentType = sniffMimeType(data);
+  if (!contentType || !TRANSFORMABLE_TYPES.has(contentType)) return null;
+
+  const format = transform.format ? `image/${transform.format}` : contentType;
+  const size = readImageSize(data, contentType);
+  const needsResize =
+    transform.maxDimension !== undefined &&
+    (!size || Math.max(size.width, size.height) > transform.maxDimension);
+
+  if (!needsResize && format === contentType) {
+    if (transform.stripMetadata === false) return null;
+    const stripped = stripImageMetadata(data, contentType);
+    return { body: viewToArrayBuffer(stripped.data), contentType };
+  }
+
+  const { orientation } = stripImageMetadata(data, contentType);
+  const encoder = transform.encoder ?? getCanvasEncoder();
+  if (!encoder) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "Resizing or re-encoding images requires OffscreenCanvas or an encoder"
+    );
+  }
+
+  let output: Uint8Array;
+  try {
+    const encoded = await encoder({
+      data,
+      contentType,
+      format: format as ImageEncodeRequest["format"],
+      quality: transform.quality ?? DEFAULT_QUALITY,
+      maxDimension: transform.maxDimension,
+      orientation
+    });
+    output =
+      encoded instanceof Uint8Array
+        ? encoded
+        : new Uint8Array(
+            encoded instanceof ArrayBuffer
+              ? encoded
+              : await encoded.arrayBuffer()
+          );
+  } catch (error) {
+    if (NoCloudAPIError.isError(error)) throw error;
+    throw NoCloudAPIError.fromStatus(400, "Failed to encode image", {
+      cause: error
+    });
+  }
+
+  // The encoder applied the orientation, so it must not be kept
+  const outputType = sniffMimeType(output) ?? format;
+  const stripped =
+    transform.stripMetadata === false
+      ? output
+      : stripImageMetadata(output, outputType, false).data;
+  return { body: viewToArrayBuffer(stripped), contentType: outputType };
+}
+
+/**
+ * Returns an encoder backed by `OffscreenCanvas`, or null if it is unavailable.
+ */
+function getCanvasEncoder(): ImageEncoder | null {
+  if (
+    typeof OffscreenCanvas === "undefined" ||
+    typeof createImageBitmap === "undefined"
+  ) {
+    return null;
+  }
+
+  return async (request) => {
+    // "from-image" applies the EXIF orientation to the decoded pixels
+    const bitmap = await createImageBitmap(
+      new Blob([viewToArrayBuffer(request.data)], {
+        type: request.contentType
+      }),
+      { imageOrientation: "from-image" }
+    );
+    try {
+      const scale = request.maxDimension
+        ? Math.min(
+            1,
+            request.maxDimension / Math.max(bitmap.width, bitmap.height)
+          )
+        : 1;
+      const canvas = new OffscreenCanvas(
+        Math.max(1, Math.round(bitmap.width * scale)),
+        Math.max(1, Math.round(bitmap.height * scale))
+      );
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("2D canvas context is unavailable");
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return await canvas.convertToBlob({
+        type: request.format,
+        quality: request.quality / 100
+      });
+    } finally {
+      bitmap.close();
+    }
+  };
+}
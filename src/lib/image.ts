@@ -0,0 +1,152 @@
+import type {
+  ImageFit,
+  ImageFormat,
+  ImageSrcSetOptions,
+  ImageTransformOptions
+} from "@/types";
+import { IMAGE_MAX_DIMENSION, IMAGE_MAX_DPR } from "./constants";
+import { NoCloudAPIError } from "./errors";
+
+const IMAGE_FITS: readonly ImageFit[] = [
+  "scale-down",
+  "contain",
+  "cover",
+  "crop",
+  "pad"
+];
+const IMAGE_FORMATS: readonly ImageFormat[] = ["webp", "avif", "jpeg", "png"];
+
+/**
+ * Query parameters of a transformation URL, in canonical order.
+ */
+const TRANSFORM_PARAMS = ["dpr", "fit", "format", "h", "q", "w"] as const;
+
+/**
+ * Validates image transformation options.
+ * @param options - The options to validate.
+ * @throws {NoCloudAPIError} If an option is out of range or unknown.
+ */
+export function validateImageTransform(options: ImageTransformOptions): void {
+  const { width, height, fit, format, quality, dpr = 1 } = options;
+
+  for (const [name, value] of [
+    ["width", width],
+    ["height", height]
+  ] as const) {
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < 1 || value > IMAGE_MAX_DIMENSION) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `${name} must be a whole number of pixels between 1 and ${IMAGE_MAX_DIMENSION}`
+      );
+    }
+    if (value * dpr > IMAGE_MAX_DIMENSION) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `${name} multiplied by dpr must not exceed ${IMAGE_MAX_DIMENSION} pixels`
+      );
+    }
+  }
+  if (
+    quality !== undefined &&
+    (!Number.isInteger(quality) || quality < 1 || quality > 100)
+  ) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "quality must be a whole number between 1 and 100"
+    );
+  }
+  if (!Number.isFinite(dpr) || dpr < 1 || dpr > IMAGE_MAX_DPR) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `dpr must be between 1 and ${IMAGE_MAX_DPR}`
+    );
+  }
+  if (fit !== undefined && !IMAGE_FITS.includes(fit)) {
+    throw NoCloudAPIError.fromStatus(400, `Unknown fit "${fit}"`);
+  }
+  if (format !== undefined && !IMAGE_FORMATS.includes(format)) {
+    throw NoCloudAPIError.fromStatus(400, `Unknown format "${format}"`);
+  }
+}
+
+/**
+ * Builds an image transformation URL.
+ * The query is canonical: parameters appear in a fixed order and defaults are omitted,
+ * so equivalent options always produce the same, cacheable URL. Existing transformation
+ * parameters of `baseUrl` are replaced; other parameters, such as signed URL tokens, are kept.
+ * @param baseUrl - The URL of the original image.
+ * @param options - The transformation options.
+ * @returns The transformation URL.
+ * @throws {NoCloudAPIError} If an option is out of range or unknown.
+ */
+export function buildImageUrl(
+  baseUrl: string,
+  options: ImageTransformOptions
+): string {
+  validateImageTransform(options);
+
+  const values: Record<(typeof TRANSFORM_PARAMS)[number], string | null> = {
+    dpr:
+      options.dpr !== undefined && options.dpr !== 1
+        ? String(Math.round(options.dpr * 100) / 100)
+        : null,
+    fit: options.fit && options.fit !== "scale-down" ? options.fit : null,
+    format: options.format ?? null,
+    h: options.height?.toString() ?? null,
+    q: options.quality?.toString() ?? null,
+    w: options.width?.toString() ?? null
+  };
+
+  const url = new URL(baseUrl);
+  for (const param of TRANSFORM_PARAMS) {
+    url.searchParams.delete(param);
+  }
+  for (const param of TRANSFORM_PARAMS) {
+    const value = values[param];
+    if (value !== null) url.searchParams.append(param, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Builds a `srcset` attribute value for responsive images.
+ * @param baseUrl - The URL of the original image.
+ * @param options - The transformation options, with either `widths` or `densities`.
+ * @returns Comma-separated transformation URLs with `w` or `x` descriptors, smallest first.
+ * @throws {NoCloudAPIError} If the options are invalid.
+ */
+export function buildImageSrcSet(
+  baseUrl: string,
+  options: ImageSrcSetOptions
+): string {
+  const { widths, densities, ...transform } = options;
+  if (!widths === !densities) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "Set exactly one of widths or densities"
+    );
+  }
+
+  const candidates = [...new Set(widths ?? densities)].sort((a, b) => a - b);
+  if (candidates.length === 0) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `${widths ? "widths" : "densities"} must not be empty`
+    );
+  }
+  if (widths && transform.width !== undefined) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "width cannot be combined with widths"
+    );
+  }
+
+  return candidates
+    .map((candidate) =>
+      widths
+        ? `${buildImageUrl(baseUrl, { ...transform, width: candidate })} ${candidate}w`
+        : `${buildImageUrl(baseUrl, { ...transform, dpr: candidate })} ${candidate}x`
+    )
+    .join(", ");
+}
@@ -1,6 +1,24 @@
+export * from "./checksum";
 export * from "./constants";
+export * from "./dedupe-cache";
+export * from "./encryption";
 export * from "./errors";
 export * from "./fetcher";
+export * from "./image";
+export * from "./image-metadata";
+export * from "./image-transform";
+export * from "./interceptors";
+export * from "./logger";
+export * from "./metadata";
+export * from "./mime";
+export * from "./policy";
+export * from "./queue-adapters";
 export * from "./resolvers";
+export * from "./retry";
 export * from "./sdk-module";
+export * from "./signed-url";
+export * from "./streams";
+export * from "./timeout";
+export * from "./tracing";
+export * from "./upload";
 export * from "./utils";
@@ -0,0 +1,68 @@
+import type { FetchFunction, Interceptor, RequestContext } from "@/types";
+
+/**
+ * Performs a request through a chain of interceptors.
+ * Hooks run in registration order. A Response returned from `onRequest` short-circuits the
+ * transport, a Response returned from `onResponse` replaces the response, and a Response
+ * returned from `onError` recovers from the error.
+ * @param fetch - The transport used to send the request.
+ * @param interceptors - The interceptors to run.
+ * @param context - The request context.
+ * @returns The final response.
+ * @throws The transport error if no interceptor recovers from it.
+ */
+export async function runInterceptors(
+  fetch: FetchFunction,
+  interceptors: readonly Interceptor[],
+  context: RequestContext
+): Promise<Response> {
+  let response =
+    (await firstResponse(interceptors, (interceptor) =>
+      interceptor.onRequest?.(context)
+    )) ?? (await send(fetch, interceptors, context));
+
+  for (const interceptor of interceptors) {
+    const result = await interceptor.onResponse?.(context, response);
+    if (result) response = result;
+  }
+
+  return response;
+}
+
+/**
+ * Sends the request, giving `onError` hooks a chance to recover from a transport error.
+ */
+async function send(
+  fetch: FetchFunction,
+  interceptors: readonly Interceptor[],
+  context: RequestContext
+): Promise<Response> {
+  try {
+    return await fetch(context.url, {
+      ...context.init,
+      headers: context.headers
+    });
+  } catch (error) {
+    const recovered = await firstResponse(interceptors, (interceptor) =>
+      interceptor.onError?.(context, error)
+    );
+    if (recovered) return recovered;
+    throw error;
+  }
+}
+
+/**
+ * Runs a hook on each interceptor in order until one returns a Response.
+ */
+async function firstResponse(
+  interceptors: readonly Interceptor[],
+  hook: (
+    interceptor: Interceptor
+  ) => void | Response | Promise<void | Response> | undefined
+): Promise<Response | undefined> {
+  for (const interceptor of interceptors) {
+    const result = await hook(interceptor);
+    if (result) return result;
+  }
+  return undefined;
+}
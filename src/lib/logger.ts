@@ -0,0 +1,116 @@
+import type {
+  Interceptor,
+  LogFields,
+  LogLevel,
+  Logger,
+  RequestContext
+} from "@/types";
+
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const REDACTED = "[REDACTED]";
+
+const noop = () => {};
+
+/**
+ * A logger that discards every record.
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Wraps a logger so records below `level` are discarded.
+ * Exceptions thrown by the logger are swallowed, so logging never breaks a request.
+ * @param logger - The logger to wrap. Every record is discarded if omitted.
+ * @param level - The minimum level to pass on.
+ * @returns The filtered logger.
+ */
+export function createLogger(
+  logger: Logger | undefined,
+  level: LogLevel = "info"
+): Logger {
+  if (!logger) return silentLogger;
+
+  const minimum = LOG_LEVELS.indexOf(level);
+  const filtered = { ...silentLogger };
+  for (const name of LOG_LEVELS.slice(minimum)) {
+    filtered[name] = (message: string, fields?: LogFields) => {
+      try {
+        logger[name](message, fields);
+      } catch {
+        // A failing logger must not fail the request
+      }
+    };
+  }
+  return filtered;
+}
+
+/**
+ * Converts request headers to a plain object, redacting credentials.
+ * The scheme of the `Authorization` header is kept, e.g. `Bearer [REDACTED]`.
+ * @param headers - The headers to convert.
+ * @returns The headers, safe to log.
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name === "authorization") {
+      const scheme = value.match(/^(\S+)\s/)?.[1];
+      result[name] = scheme ? `${scheme} ${REDACTED}` : REDACTED;
+    } else {
+      result[name] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Returns a URL that is safe to log. The query of signed URLs is dropped,
+ * since it carries the signature.
+ * @param url - The request URL.
+ * @param kind - The kind of request.
+ * @returns The URL, safe to log.
+ */
+export function redactUrl(url: string, kind: RequestContext["kind"]): string {
+  return kind === "external" ? url.replace(/[?#].*$/, "") : url;
+}
+
+/**
+ * Creates an interceptor that logs every request and its outcome at `debug` level.
+ * @param logger - The logger to write to.
+ * @returns The logging interceptor.
+ */
+export function createLoggingInterceptor(logger: Logger): Interceptor {
+  const describe = (context: RequestContext): LogFields => ({
+    method: context.init.method ?? "GET",
+    url: redactUrl(context.url, context.kind),
+    kind: context.kind,
+    attempt: context.attempt
+  });
+
+  return {
+    onRequest(context) {
+      logger.debug("Sending request", {
+        ...describe(context),
+        headers: redactHeaders(context.headers)
+      });
+    },
+    onResponse(context, response) {
+      logger.debug("Received response", {
+        ...describe(context),
+        status: response.status,
+        durationMs: Date.now() - context.startedAt
+      });
+    },
+    onError(context, error) {
+      logger.debug("Request failed", {
+        ...describe(context),
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - context.startedAt
+      });
+    }
+  };
+}
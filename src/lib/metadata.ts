@@ -0,0 +1,79 @@
+import type { FileMetadata, MetadataPatch } from "@/types";
+import {
+  METADATA_KEY_PATTERN,
+  METADATA_MAX_KEY_LENGTH,
+  METADATA_MAX_KEYS,
+  METADATA_MAX_SIZE,
+  METADATA_MAX_VALUE_LENGTH
+} from "./constants";
+import { NoCloudAPIError } from "./errors";
+
+/**
+ * Validates file metadata before it is sent to the API.
+ * Keys may contain letters, digits, `_`, `.` and `-`. Values must be strings,
+ * finite numbers or booleans; `null` is only accepted when `allowNull` is set.
+ * @param metadata - The metadata to validate.
+ * @param allowNull - Whether `null` values (key removal) are allowed.
+ * @throws {NoCloudAPIError} If the metadata is invalid.
+ */
+export function validateMetadata(
+  metadata: FileMetadata | MetadataPatch,
+  allowNull: boolean = false
+): void {
+  if (
+    typeof metadata !== "object" ||
+    metadata === null ||
+    Array.isArray(metadata)
+  ) {
+    throw NoCloudAPIError.fromStatus(400, "Metadata must be a plain object");
+  }
+
+  const entries = Object.entries(metadata);
+  if (entries.length > METADATA_MAX_KEYS) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `Metadata cannot have more than ${METADATA_MAX_KEYS} keys`
+    );
+  }
+
+  for (const [key, value] of entries) {
+    if (key.length > METADATA_MAX_KEY_LENGTH) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `Metadata key "${key}" exceeds ${METADATA_MAX_KEY_LENGTH} characters`
+      );
+    }
+    if (!METADATA_KEY_PATTERN.test(key)) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `Metadata key "${key}" may only contain letters, digits, "_", "." and "-"`
+      );
+    }
+
+    if (value === null && allowNull) continue;
+    if (typeof value === "string") {
+      if (value.length > METADATA_MAX_VALUE_LENGTH) {
+        throw NoCloudAPIError.fromStatus(
+          400,
+          `Metadata value for "${key}" exceeds ${METADATA_MAX_VALUE_LENGTH} characters`
+        );
+      }
+      continue;
+    }
+    if (typeof value === "boolean") continue;
+    if (typeof value === "number" && Number.isFinite(value)) continue;
+
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `Metadata value for "${key}" must be a string, finite number or boolean`
+    );
+  }
+
+  const size = new TextEncoder().encode(JSON.stringify(metadata)).byteLength;
+  if (size > METADATA_MAX_SIZE) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `Metadata exceeds ${METADATA_MAX_SIZE} bytes when serialized`
+    );
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Number of leading bytes inspected when sniffing a MIME type.
+ */
+export const SNIFF_LENGTH = 4100;
+
+/**
+ * MIME types by lowercase file extension, used as a fallback when sniffing fails.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  // Images
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  heif: "image/heif",
+  bmp: "image/bmp",
+  ico: "image/x-icon",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  svg: "image/svg+xml",
+  psd: "image/vnd.adobe.photoshop",
+  jxl: "image/jxl",
+  // Audio
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  flac: "audio/flac",
+  aac: "audio/aac",
+  m4a: "audio/mp4",
+  mid: "audio/midi",
+  midi: "audio/midi",
+  aiff: "audio/aiff",
+  // Video
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  mkv: "video/x-matroska",
+  avi: "video/x-msvideo",
+  flv: "video/x-flv",
+  "3gp": "video/3gpp",
+  "3g2": "video/3gpp2",
+  mpg: "video/mpeg",
+  mpeg: "video/mpeg",
+  ogv: "video/ogg",
+  // Archives
+  zip: "application/zip",
+  gz: "application/gzip",
+  tgz: "application/gzip",
+  bz2: "application/x-bzip2",
+  xz: "application/x-xz",
+  zst: "application/zstd",
+  "7z": "application/x-7z-compressed",
+  rar: "application/vnd.rar",
+  tar: "application/x-tar",
+  // Documents
+  pdf: "application/pdf",
+  rtf: "application/rtf",
+  ps: "application/postscript",
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  epub: "application/epub+zip",
+  // Fonts
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  ttc: "font/collection",
+  // Text and data
+  txt: "text/plain",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  md: "text/markdown",
+  json: "application/json",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  wasm: "application/wasm",
+  sqlite: "application/vnd.sqlite3"
+};
+
+/**
+ * Image `ftyp` brands, by MIME type, in order of precedence.
+ * Matched against the major and compatible brands, since generic HEIF containers
+ * declare their codec as a compatible brand.
+ */
+const IMAGE_FTYP_BRANDS: [string, string[]][] = [
+  ["image/avif", ["avif", "avis"]],
+  ["image/heic", ["heic", "heix", "hevc", "hevx", "heim", "heis"]],
+  ["image/heif", ["mif1", "msf1"]]
+];
+
+/**
+ * Audio and video `ftyp` major brands, by MIME type.
+ */
+const MEDIA_FTYP_BRANDS: [string, string[]][] = [
+  ["video/quicktime", ["qt  "]],
+  ["audio/mp4", ["M4A ", "M4B ", "M4P "]],
+  ["video/3gpp2", ["3g2a", "3g2b", "3g2c"]]
+];
+
+/**
+ * Office Open XML documents, detected by the directory of their archive entries.
+ */
+const ZIP_MARKERS: [string, string][] = [
+  ["word/", EXTENSION_MIME_TYPES.docx!],
+  ["xl/", EXTENSION_MIME_TYPES.xlsx!],
+  ["ppt/", EXTENSION_MIME_TYPES.pptx!]
+];
+
+const textDecoder = new TextDecoder("latin1");
+
+function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+function matches(
+  bytes: Uint8Array,
+  signature: (number | null)[],
+  offset: number = 0
+): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every(
+    (byte, i) => byte === null || bytes[offset + i] === byte
+  );
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return textDecoder.decode(bytes.subarray(start, end));
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return (
+    (((bytes[offset] ?? 0) << 24) +
+      ((bytes[offset + 1] ?? 0) << 16) +
+      ((bytes[offset + 2] ?? 0) << 8) +
+      (bytes[offset + 3] ?? 0)) >>>
+    0
+  );
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    (((bytes[offset + 3] ?? 0) << 24) +
+      ((bytes[offset + 2] ?? 0) << 16) +
+      ((bytes[offset + 1] ?? 0) << 8) +
+      (bytes[offset] ?? 0)) >>>
+    0
+  );
+}
+
+/**
+ * Detects ISO base media files (MP4, MOV, HEIC, AVIF, 3GP, M4A) from their `ftyp` box.
+ */
+function sniffFtyp(bytes: Uint8Array): string | null {
+  if (ascii(bytes, 4, 8) !== "ftyp") return null;
+
+  const boxSize = Math.min(readUint32BE(bytes, 0), bytes.length);
+  const majorBrand = ascii(bytes, 8, 12);
+  const brands = [majorBrand];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+
+  for (const [mimeType, candidates] of IMAGE_FTYP_BRANDS) {
+    if (brands.some((brand) => candidates.includes(brand))) return mimeType;
+  }
+  for (const [mimeType, candidates] of MEDIA_FTYP_BRANDS) {
+    if (candidates.includes(majorBrand)) return mimeType;
+  }
+  if (majorBrand.startsWith("3gp")) return "video/3gpp";
+  return "video/mp4";
+}
+
+/**
+ * Detects RIFF containers (WEBP, WAV, AVI) from their form type.
+ */
+function sniffRiff(bytes: Uint8Array): string | null {
+  if (ascii(bytes, 0, 4) !== "RIFF") return null;
+
+  switch (ascii(bytes, 8, 12)) {
+    case "WEBP":
+      return "image/webp";
+    case "WAVE":
+      return "audio/wav";
+    case "AVI ":
+      return "video/x-msvideo";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Detects Matroska and WebM files from their EBML header.
+ */
+function sniffEbml(bytes: Uint8Array): string | null {
+  if (!matches(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return null;
+
+  const header = ascii(bytes, 4, Math.min(bytes.length, 64));
+  return header.includes("webm") ? "video/webm" : "video/x-matroska";
+}
+
+/**
+ * Detects ZIP-based formats (EPUB, OpenDocument, Office Open XML) from the archive entries.
+ */
+function sniffZip(bytes: Uint8Array): string | null {
+  if (
+    !matches(bytes, [0x50, 0x4b, 0x03, 0x04]) &&
+    !matches(bytes, [0x50, 0x4b, 0x05, 0x06]) &&
+    !matches(bytes, [0x50, 0x4b, 0x07, 0x08])
+  ) {
+    return null;
+  }
+
+  // An uncompressed "mimetype" first entry names the format (EPUB, OpenDocument)
+  const nameLength = (bytes[26] ?? 0) + ((bytes[27] ?? 0) << 8);
+  const extraLength = (bytes[28] ?? 0) + ((bytes[29] ?? 0) << 8);
+  if (ascii(bytes, 30, 30 + nameLength) === "mimetype") {
+    const start = 30 + nameLength + extraLength;
+    const declared = ascii(bytes, start, start + 80).match(
+      /^application\/[\w.+-]+/
+    );
+    if (declared) return declared[0];
+  }
+
+  const content = ascii(bytes, 0, bytes.length);
+  for (const [marker, mimeType] of ZIP_MARKERS) {
+    if (content.includes(marker)) return mimeType;
+  }
+  return "application/zip";
+}
+
+/**
+ * Detects text-based formats (SVG, XML, HTML, RTF, PostScript) from their leading characters.
+ */
+function sniffText(bytes: Uint8Array): string | null {
+  const text = ascii(bytes, 0, Math.min(bytes.length, 1024))
+    .replace(/^\xef\xbb\xbf/, "")
+    .trimStart();
+
+  if (text.startsWith("{\\rtf")) return "application/rtf";
+  if (text.startsWith("%!PS")) return "application/postscript";
+  if (/^<svg[\s>]/i.test(text)) return "image/svg+xml";
+  if (/^<!doctype html|^<html[\s>]/i.test(text)) return "text/html";
+  if (text.startsWith("<?xml")) {
+    return /<svg[\s>]/i.test(text) ? "image/svg+xml" : "application/xml";
+  }
+  return null;
+}
+
+/**
+ * Detects the MIME type of binary data from its magic bytes.
+ * Covers common image, audio, video, archive, document and font formats, including
+ * `ftyp` brands (MP4, MOV, HEIC, AVIF) and RIFF form types (WEBP, WAV, AVI).
+ * @param data - The data, or at least its first few kilobytes.
+ * @param filename - Optional file name whose extension is used if the bytes are not recognized.
+ * @returns The detected MIME type, or null if not detected.
+ */
+export function sniffMimeType(
+  data: ArrayBuffer | ArrayBufferView,
+  filename?: string
+): string | null {
+  const bytes = toBytes(data).subarray(0, SNIFF_LENGTH);
+  return (
+    sniffBytes(bytes, filename) ??
+    (filename ? getMimeTypeFromFilename(filename) : null)
+  );
+}
+
+function sniffBytes(bytes: Uint8Array, filename?: string): string | null {
+  // Images
+  if (matches(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (matches(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return "image/gif";
+  }
+  if (
+    matches(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    matches(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "image/tiff";
+  }
+  if (
+    ascii(bytes, 0, 2) === "BM" &&
+    [12, 40, 52, 56, 64, 108, 124].includes(readUint32LE(bytes, 14))
+  ) {
+    return "image/bmp";
+  }
+  if (matches(bytes, [0x00, 0x00, 0x01, 0x00]) && (bytes[4] ?? 0) > 0) {
+    return "image/x-icon";
+  }
+  if (ascii(bytes, 0, 4) === "8BPS") return "image/vnd.adobe.photoshop";
+  if (
+    matches(bytes, [0xff, 0x0a]) ||
+    matches(bytes, [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20])
+  ) {
+    return "image/jxl";
+  }
+
+  // Containers with subtypes
+  const container = sniffFtyp(bytes) ?? sniffRiff(bytes) ?? sniffEbml(bytes);
+  if (container) return container;
+
+  // Audio
+  if (ascii(bytes, 0, 3) === "ID3") return "audio/mpeg";
+  if (ascii(bytes, 0, 4) === "OggS") {
+    const header = ascii(bytes, 28, 36);
+    if (header.includes("theora")) return "video/ogg";
+    return "audio/ogg";
+  }
+  if (ascii(bytes, 0, 4) === "fLaC") return "audio/flac";
+  if (ascii(bytes, 0, 4) === "MThd") return "audio/midi";
+  if (ascii(bytes, 0, 4) === "FORM" && ascii(bytes, 8, 12) === "AIFF") {
+    return "audio/aiff";
+  }
+  if (matches(bytes, [0xff, 0xf1]) || matches(bytes, [0xff, 0xf9])) {
+    return "audio/aac";
+  }
+  if (
+    bytes[0] === 0xff &&
+    [0xfb, 0xfa, 0xf3, 0xf2, 0xe3, 0xe2].includes(bytes[1] ?? 0)
+  ) {
+    return "audio/mpeg";
+  }
+
+  // Video
+  if (ascii(bytes, 0, 3) === "FLV") return "video/x-flv";
+  if (matches(bytes, [0x00, 0x00, 0x01, 0xba])) return "video/mpeg";
+
+  // Archives
+  const zip = sniffZip(bytes);
+  if (zip) {
+    // Office Open XML entries are often stored after the first few kilobytes
+    if (zip === "application/zip" && filename) {
+      const byExtension = getMimeTypeFromFilename(filename);
+      if (byExtension && ZIP_MARKERS.some(([, type]) => type === byExtension)) {
+        return byExtension;
+      }
+    }
+    return zip;
+  }
+  if (matches(bytes, [0x1f, 0x8b])) return "application/gzip";
+  if (ascii(bytes, 0, 3) === "BZh") return "application/x-bzip2";
+  if (matches(bytes, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+    return "application/x-7z-compressed";
+  }
+  if (ascii(bytes, 0, 6) === "Rar!\x1a\x07") return "application/vnd.rar";
+  if (matches(bytes, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])) {
+    return "application/x-xz";
+  }
+  if (matches(bytes, [0x28, 0xb5, 0x2f, 0xfd])) return "application/zstd";
+  if (ascii(bytes, 257, 262) === "ustar") return "application/x-tar";
+
+  // Documents
+  if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+  if (matches(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    // Legacy Office documents share the Compound File container
+    const byExtension = filename ? getMimeTypeFromFilename(filename) : null;
+    return byExtension?.startsWith("application/vnd.ms-") ||
+      byExtension === "application/msword"
+      ? byExtension
+      : "application/x-cfb";
+  }
+
+  // Fonts
+  if (ascii(bytes, 0, 4) === "wOFF") return "font/woff";
+  if (ascii(bytes, 0, 4) === "wOF2") return "font/woff2";
+  if (ascii(bytes, 0, 4) === "OTTO") return "font/otf";
+  if (ascii(bytes, 0, 4) === "ttcf") return "font/collection";
+  if (matches(bytes, [0x00, 0x01, 0x00, 0x00, 0x00])) return "font/ttf";
+
+  // Other binary formats
+  if (matches(bytes, [0x00, 0x61, 0x73, 0x6d])) return "application/wasm";
+  if (ascii(bytes, 0, 16) === "SQLite format 3\0") {
+    return "application/vnd.sqlite3";
+  }
+
+  return sniffText(bytes);
+}
+
+/**
+ * Looks up a MIME type from a file name's extension.
+ * @param filename - The file name or path.
+ * @returns The MIME type for the extension, or null if unknown.
+ */
+export function getMimeTypeFromFilename(filename: string): string | null {
+  const match = filename.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return (match && EXTENSION_MIME_TYPES[match[1]!]) || null;
+}
+
+/**
+ * Detects the MIME type of a Blob, File, ArrayBuffer or typed array by reading its first bytes.
+ * For a `File`, its name is used as the extension fallback unless `filename` is given.
+ * @param body - The data to inspect.
+ * @param filename - Optional file name whose extension is used if the bytes are not recognized.
+ * @returns The detected MIME type, or null if not detected.
+ */
+export async function detectMimeType(
+  body: Blob | ArrayBuffer | ArrayBufferView,
+  filename?: string
+): Promise<string | null> {
+  if (!(body instanceof ArrayBuffer) && !ArrayBuffer.isView(body)) {
+    const name =
+      filename ??
+      (typeof File !== "undefined" && body instanceof File
+        ? body.name
+        : undefined);
+    const head = await body.slice(0, SNIFF_LENGTH).arrayBuffer();
+    return sniffMimeType(head, name);
+  }
+  return sniffMimeType(body, filename);
+}
+
+/**
+ * Detects the MIME type of a stream from its first chunk.
+ * Reading consumes the stream, so a replacement stream yielding the full content is returned.
+ * @param stream - The stream to inspect.
+ * @param filename - Optional file name whose extension is used if the bytes are not recognized.
+ * @returns The detected MIME type and a stream to use in place of the original.
+ */
+export async function sniffStream(
+  stream: ReadableStream<Uint8Array>,
+  filename?: string
+): Promise<{ mimeType: string | null; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const { value, done } = await reader.read();
+  const head = value ?? new Uint8Array(0);
+
+  const replacement = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head.byteLength > 0) controller.enqueue(head);
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const next = await reader.read();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return { mimeType: sniffMimeType(head, filename), stream: replacement };
+}
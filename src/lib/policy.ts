@@ -0,0 +1,134 @@
+import type { UploadPolicy, UploadPolicyViolation } from "@/types";
+import { NoCloudAPIError, NoCloudError } from "./errors";
+
+/**
+ * Describes an upload body checked against an upload policy.
+ */
+export interface UploadPolicySubject {
+  /**
+   * The content type the upload will be stored with.
+   */
+  contentType: string;
+  /**
+   * The size of the body in bytes.
+   */
+  size: number;
+  /**
+   * The type declared by the caller, such as `Blob.type` or a data URL type.
+   */
+  declaredType?: string | null;
+  /**
+   * The type sniffed from the body content.
+   */
+  detectedType?: string | null;
+}
+
+/**
+ * Merges upload policies, with later policies overriding earlier ones.
+ * Fields set to `undefined` are ignored.
+ * @param policies - Upload policies in order of increasing precedence.
+ * @returns The merged upload policy.
+ */
+export function resolveUploadPolicy(
+  ...policies: (UploadPolicy | undefined)[]
+): UploadPolicy {
+  const merged: UploadPolicy = {};
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Checks whether a MIME type matches a pattern such as `image/png` or `image/*`.
+ * @param mimeType - The MIME type to check.
+ * @param pattern - The pattern to match against.
+ * @returns True if the type matches the pattern, false otherwise.
+ */
+export function matchesMimeType(mimeType: string, pattern: string): boolean {
+  const [type, subtype] = mimeType.toLowerCase().split("/");
+  const [patternType, patternSubtype] = pattern.toLowerCase().split("/");
+  return (
+    (patternType === "*" || patternType === type) &&
+    (patternSubtype === "*" || patternSubtype === subtype)
+  );
+}
+
+/**
+ * Checks an upload body against an upload policy.
+ * @param policy - The upload policy to enforce.
+ * @param subject - The content type, size and detected types of the body.
+ * @throws {NoCloudAPIError} If the body violates the policy. The violated rule is given in `details`.
+ */
+export function enforceUploadPolicy(
+  policy: UploadPolicy,
+  subject: UploadPolicySubject
+): void {
+  const { contentType, size, declaredType, detectedType } = subject;
+
+  if (
+    policy.allowedTypes &&
+    !policy.allowedTypes.some((pattern) =>
+      matchesMimeType(contentType, pattern)
+    )
+  ) {
+    throw violation(
+      NoCloudError.UNSUPPORTED_MEDIA_TYPE,
+      `Content type "${contentType}" is not allowed`,
+      { rule: "allowedTypes", contentType, allowedTypes: policy.allowedTypes }
+    );
+  }
+
+  if (policy.minSize !== undefined && size < policy.minSize) {
+    throw violation(
+      NoCloudError.BAD_REQUEST,
+      `File size ${size} is below the minimum of ${policy.minSize} bytes`,
+      { rule: "minSize", size, minSize: policy.minSize }
+    );
+  }
+
+  assertMaxSize(policy, size);
+
+  if (
+    policy.verifyContentType &&
+    declaredType &&
+    detectedType &&
+    declaredType.toLowerCase() !== detectedType.toLowerCase()
+  ) {
+    throw violation(
+      NoCloudError.UNSUPPORTED_MEDIA_TYPE,
+      `Declared type "${declaredType}" does not match detected content type "${detectedType}"`,
+      { rule: "verifyContentType", declaredType, detectedType }
+    );
+  }
+}
+
+/**
+ * Checks a size against the `maxSize` of an upload policy. Used on its own to
+ * stop reading a stream as soon as it grows too large.
+ * @param policy - The upload policy to enforce.
+ * @param size - The size in bytes.
+ * @throws {NoCloudAPIError} If the size exceeds `maxSize`.
+ */
+export function assertMaxSize(policy: UploadPolicy, size: number): void {
+  if (policy.maxSize !== undefined && size > policy.maxSize) {
+    throw violation(
+      NoCloudError.PAYLOAD_TOO_LARGE,
+      `File size ${size} exceeds the maximum of ${policy.maxSize} bytes`,
+      { rule: "maxSize", size, maxSize: policy.maxSize }
+    );
+  }
+}
+
+function violation(
+  code: NoCloudError,
+  message: string,
+  details: UploadPolicyViolation
+): NoCloudAPIError {
+  return NoCloudAPIError.fromCode(code, message, { details });
+}
@@ -0,0 +1,104 @@
+import type { QueueStorageAdapter, QueuedUpload } from "@/types";
+
+/**
+ * Keeps queued uploads in memory. Uploads survive queue restarts within the same
+ * process, but not page reloads or process restarts.
+ */
+export class MemoryQueueAdapter implements QueueStorageAdapter {
+  private readonly uploads = new Map<string, QueuedUpload>();
+
+  async load(): Promise<QueuedUpload[]> {
+    return [...this.uploads.values()].map((upload) => ({ ...upload }));
+  }
+
+  async save(upload: QueuedUpload): Promise<void> {
+    this.uploads.set(upload.id, { ...upload });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.uploads.delete(id);
+  }
+}
+
+/**
+ * Options for the IndexedDB queue adapter.
+ */
+export interface IndexedDBQueueAdapterOptions {
+  /**
+   * The name of the database.
+   * @default "nocloud-upload-queue"
+   */
+  databaseName?: string;
+  /**
+   * The name of the object store.
+   * @default "uploads"
+   */
+  storeName?: string;
+}
+
+/**
+ * Persists queued uploads in IndexedDB, so they survive page reloads.
+ * Blobs are stored directly, without reading them into memory.
+ */
+export class IndexedDBQueueAdapter implements QueueStorageAdapter {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private database?: Promise<IDBDatabase>;
+
+  /**
+   * @param options - Optional database and object store names.
+   */
+  constructor(options: IndexedDBQueueAdapterOptions = {}) {
+    this.databaseName = options.databaseName ?? "nocloud-upload-queue";
+    this.storeName = options.storeName ?? "uploads";
+  }
+
+  async load(): Promise<QueuedUpload[]> {
+    return this.run("readonly", (store) => store.getAll());
+  }
+
+  async save(upload: QueuedUpload): Promise<void> {
+    await this.run("readwrite", (store) => store.put(upload));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(id));
+  }
+
+  /**
+   * Runs a request in a new transaction and resolves once the transaction completes.
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = fn(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this environment"));
+        return;
+      }
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    this.database.catch(() => {
+      this.database = undefined;
+    });
+    return this.database;
+  }
+}
@@ -1,5 +1,56 @@
 import { NoCloudAPIError } from "./errors";
 
+/**
+ * Creates a NoCloudAPIError from a failed response.
+ * The server-provided error code is preferred over the HTTP status when present.
+ * @param response The fetch Response object
+ * @param prefix Optional message prefix; the raw body text is used as the message detail if it is not JSON
+ * @returns The error describing the failed response
+ */
+export async function createResponseError(
+  response: Response,
+  prefix?: string
+): Promise<NoCloudAPIError> {
+  const text = await response.text().catch(() => "");
+  let body: {
+    message?: string;
+    code?: string;
+    details?: unknown;
+    requestId?: string;
+  } = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not a JSON error body, e.g. an XML error from storage
+  }
+
+  const detail = body.message || (prefix ? text || response.statusText : "");
+  const message = prefix ? `${prefix}: ${detail}` : detail || "Unknown error";
+  const options = {
+    requestId:
+      body.requestId ??
+      response.headers.get("X-Request-Id") ??
+      response.headers.get("X-Amz-Request-Id") ??
+      undefined,
+    details: body.details
+  };
+
+  return NoCloudAPIError.isErrorCode(body.code)
+    ? NoCloudAPIError.fromCode(body.code, message, options)
+    : NoCloudAPIError.fromStatus(response.status, message, options);
+}
+
+/**
+ * Throws an error if the response is not ok.
+ * @param response The fetch Response object
+ * @throws {NoCloudAPIError} If the response is not ok
+ */
+export async function assertOkResponse(response: Response): Promise<void> {
+  if (!response.ok) {
+    throw await createResponseError(response);
+  }
+}
+
 /**
  * Resolves a JSON response, throwing an error if the response is not ok.
  * @param response The fetch Response object
@@ -7,15 +58,7 @@ import { NoCloudAPIError } from "./errors";
  * @throws {NoCloudAPIError} If the response is not ok
  */
 export async function resolveJsonResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const err = (await response.json().catch(() => ({}))) as {
-      message?: string;
-    };
-    throw NoCloudAPIError.fromStatus(
-      response.status,
-      err.message || "Unknown error"
-    );
-  }
+  await assertOkResponse(response);
 
   return (await response.json()) as T;
 }
@@ -0,0 +1,197 @@
+import type { RetryContext, RetryPolicy } from "@/types";
+import { NoCloudAPIError } from "./errors";
+import { delay } from "./utils";
+
+export type ResolvedRetryPolicy = Required<
+  Omit<RetryPolicy, "maxElapsedMs" | "shouldRetry">
+> &
+  Pick<RetryPolicy, "maxElapsedMs" | "shouldRetry">;
+
+export interface RetryRequestOptions {
+  /**
+   * The HTTP method of the request.
+   */
+  method: string;
+  /**
+   * Marks a request with a non-idempotent method as safe to retry.
+   */
+  idempotent?: boolean;
+  /**
+   * Signal that cancels the request and any pending retry delay.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called before waiting to retry a failed attempt.
+   */
+  onRetry?: (context: RetryContext, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = new Set([
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "DELETE",
+  "TRACE"
+]);
+
+/**
+ * Fills in the defaults of a retry policy.
+ * @param policies - Policies to merge, later ones taking precedence.
+ * @returns The resolved retry policy.
+ */
+export function resolveRetryPolicy(
+  ...policies: (RetryPolicy | undefined)[]
+): ResolvedRetryPolicy {
+  const merged: RetryPolicy = {};
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  return {
+    retries: merged.retries ?? 3,
+    baseDelayMs: merged.baseDelayMs ?? 1000,
+    maxDelayMs: merged.maxDelayMs ?? 30_000,
+    backoffFactor: merged.backoffFactor ?? 2,
+    jitter: merged.jitter ?? true,
+    retryOnStatus: merged.retryOnStatus ?? DEFAULT_RETRY_STATUS_CODES,
+    respectRetryAfter: merged.respectRetryAfter ?? true,
+    retryNonIdempotent: merged.retryNonIdempotent ?? false,
+    maxElapsedMs: merged.maxElapsedMs,
+    shouldRetry: merged.shouldRetry
+  };
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ * @param value - The header value, either delay seconds or an HTTP date.
+ * @param now - The current time in milliseconds.
+ * @returns The delay in milliseconds, or null if the value is missing or invalid.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next retry. `Retry-After` delays are capped at `maxDelayMs`.
+ * @param policy - The resolved retry policy.
+ * @param attempt - The zero-based number of the attempt that failed.
+ * @param response - The response of the failed attempt, if any.
+ * @returns The delay in milliseconds.
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  response?: Response
+): number {
+  if (policy.respectRetryAfter && response) {
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== null) return Math.min(retryAfter, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * policy.backoffFactor ** attempt
+  );
+  return policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+/**
+ * Checks whether a request may be retried based on its method.
+ * @param policy - The resolved retry policy.
+ * @param options - The request options.
+ * @returns True if the request may be retried.
+ */
+function isRetryableMethod(
+  policy: ResolvedRetryPolicy,
+  options: RetryRequestOptions
+): boolean {
+  return (
+    policy.retryNonIdempotent ||
+    options.idempotent === true ||
+    IDEMPOTENT_METHODS.has(options.method.toUpperCase())
+  );
+}
+
+/**
+ * Performs a request, retrying failed attempts according to a retry policy.
+ * Error responses with a retryable status are retried; once retries are exhausted
+ * the last response is returned as-is.
+ * @param request - Function performing a single attempt.
+ * @param policy - The resolved retry policy.
+ * @param options - The request options.
+ * @returns The response of the last attempt.
+ * @throws The last encountered error if the final attempt did not complete.
+ */
+export async function fetchWithRetry(
+  request: (attempt: number) => Promise<Response>,
+  policy: ResolvedRetryPolicy,
+  options: RetryRequestOptions
+): Promise<Response> {
+  const { signal } = options;
+  const startedAt = Date.now();
+  const canRetryMethod = isRetryableMethod(policy, options);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let error: unknown;
+
+    try {
+      response = await request(attempt);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      error = err;
+    }
+
+    const context: RetryContext = {
+      attempt,
+      method: options.method,
+      elapsedMs: Date.now() - startedAt,
+      response,
+      error
+    };
+    const defaultDecision =
+      canRetryMethod &&
+      (response
+        ? policy.retryOnStatus.includes(response.status)
+        : !NoCloudAPIError.isError(error) || error.retryable);
+    const shouldRetry =
+      attempt < policy.retries &&
+      (policy.shouldRetry?.(context) ?? defaultDecision);
+
+    const delayMs = shouldRetry
+      ? computeRetryDelay(policy, attempt, response)
+      : 0;
+    const exceedsBudget =
+      policy.maxElapsedMs !== undefined &&
+      context.elapsedMs + delayMs > policy.maxElapsedMs;
+
+    if (!shouldRetry || exceedsBudget) {
+      if (response) return response;
+      throw error;
+    }
+
+    options.onRetry?.(context, delayMs);
+    await response?.body?.cancel().catch(() => {});
+    await delay(delayMs, signal);
+  }
+}
@@ -1,4 +1,12 @@
-import type { Fetcher, FetchOptions } from "./fetcher";
+import type {
+  Logger,
+  RequestOptions,
+  RetryPolicy,
+  Span,
+  SpanAttributes
+} from "@/types";
+import type { Fetcher, FetchOptions, RequestAttemptOptions } from "./fetcher";
+import type { RetryRequestOptions } from "./retry";
 
 export class SDKModule {
   constructor(private readonly fetcher: Fetcher) {}
@@ -6,4 +14,43 @@ export class SDKModule {
   protected fetch(endpoint: string, options?: FetchOptions): Promise<Response> {
     return this.fetcher.fetch(endpoint, options);
   }
+
+  protected buildUrl(endpoint: string): string {
+    return this.fetcher.buildUrl(endpoint);
+  }
+
+  protected request(
+    url: string,
+    init?: RequestInit,
+    options?: RequestAttemptOptions
+  ): Promise<Response> {
+    return this.fetcher.request(url, init, options);
+  }
+
+  protected get logger(): Logger {
+    return this.fetcher.logger;
+  }
+
+  protected trace<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+    parent?: Span
+  ): Promise<T> {
+    return this.fetcher.trace(name, attributes, fn, parent);
+  }
+
+  protected retry(
+    request: (attempt: number) => Promise<Response>,
+    options: RetryRequestOptions & { retryPolicy?: RetryPolicy; url?: string }
+  ): Promise<Response> {
+    return this.fetcher.retry(request, options);
+  }
+
+  protected withDeadline<T>(
+    options: RequestOptions,
+    fn: (signal: AbortSignal | undefined) => Promise<T>
+  ): Promise<T> {
+    return this.fetcher.withDeadline(options.signal, options.deadlineMs, fn);
+  }
 }
@@ -0,0 +1,25 @@
+import type { SignedDownloadUrlResponse, SignedUrlResponse } from "@/types";
+
+type ExpiringUrl = Pick<
+  SignedUrlResponse | SignedDownloadUrlResponse,
+  "expiresAt"
+>;
+
+/**
+ * Parses the expiration time of a signed URL.
+ * @param signed - A signed upload or download URL response.
+ * @returns The expiration time as a `Date`.
+ */
+export function getExpiresAt(signed: ExpiringUrl): Date {
+  return new Date(signed.expiresAt);
+}
+
+/**
+ * Checks whether a signed URL has expired, or will within `skewMs`.
+ * @param signed - A signed upload or download URL response.
+ * @param skewMs - Margin before the expiration time that already counts as expired. Defaults to 0.
+ * @returns True if the URL can no longer be used safely, false otherwise.
+ */
+export function isSignedUrlExpired(signed: ExpiringUrl, skewMs = 0): boolean {
+  return getExpiresAt(signed).getTime() - skewMs <= Date.now();
+}
@@ -0,0 +1,231 @@
+/**
+ * Chunk types accepted from async iterables, such as Node.js `Readable` streams.
+ * Strings are encoded as UTF-8.
+ */
+export type StreamChunk = Uint8Array | string;
+
+/**
+ * A web stream or an async iterable of chunks.
+ */
+export type StreamSource =
+  ReadableStream<Uint8Array> | AsyncIterable<StreamChunk>;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Checks whether a value is an async iterable, such as a Node.js `Readable` stream.
+ * @param value - The value to check.
+ * @returns True if the value implements `Symbol.asyncIterator`, false otherwise.
+ */
+export function isAsyncIterable(
+  value: unknown
+): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Record<symbol, unknown>)[Symbol.asyncIterator] ===
+      "function"
+  );
+}
+
+/**
+ * Converts a web stream or async iterable to a web `ReadableStream`.
+ * Web streams are returned as-is. Cancelling the returned stream ends the iteration.
+ * @param source - The stream or async iterable to convert.
+ * @returns A web stream yielding the same bytes.
+ */
+export function toReadableStream(
+  source: StreamSource
+): ReadableStream<Uint8Array> {
+  if (source instanceof ReadableStream) return source;
+
+  const iterator = source[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(
+          typeof value === "string" ? textEncoder.encode(value) : value
+        );
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    }
+  });
+}
+
+/**
+ * Wraps a web stream or async iterable, checking the number of bytes read so far after each chunk.
+ * If the check throws, the source is cancelled and the returned stream errors with the thrown error.
+ * @param source - The stream or async iterable to wrap.
+ * @param checkSize - Called with the running total of bytes; throws to stop reading.
+ * @returns A web stream yielding the same bytes.
+ */
+export function limitStream(
+  source: StreamSource,
+  checkSize: (size: number) => void
+): ReadableStream<Uint8Array> {
+  const reader = toReadableStream(source).getReader();
+  let size = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      size += value.byteLength;
+      try {
+        checkSize(size);
+      } catch (error) {
+        await reader.cancel(error).catch(() => {});
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Reads a web stream or async iterable to the end.
+ * @param source - The stream or async iterable to read.
+ * @returns The concatenated bytes.
+ */
+export async function readAll(source: StreamSource): Promise<ArrayBuffer> {
+  const reader = toReadableStream(source).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concatBytes(chunks);
+}
+
+/**
+ * Reads byte ranges from a stream in increasing order, without buffering it whole.
+ */
+export interface SequentialReader {
+  /**
+   * Reads up to `length` bytes starting at `offset`. Calls are queued, and bytes
+   * before `offset` that no earlier call read are discarded.
+   * @returns Fewer than `length` bytes if the stream ends first.
+   */
+  read(offset: number, length: number): Promise<ArrayBuffer>;
+  /**
+   * Cancels the underlying stream. Queued reads after this return no bytes.
+   */
+  cancel(reason?: unknown): Promise<void>;
+}
+
+/**
+ * Creates a reader for consecutive ranges of a web stream or async iterable.
+ * Only the requested range and the rest of the current chunk are held in memory.
+ * @param source - The stream or async iterable to read.
+ * @returns A reader whose ranges must be requested in increasing order.
+ */
+export function createSequentialReader(source: StreamSource): SequentialReader {
+  const reader = toReadableStream(source).getReader();
+  let position = 0;
+  let leftover: Uint8Array | undefined;
+  let done = false;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const next = async (): Promise<Uint8Array | undefined> => {
+    if (leftover) {
+      const chunk = leftover;
+      leftover = undefined;
+      return chunk;
+    }
+    if (done) return undefined;
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      return undefined;
+    }
+    return result.value;
+  };
+
+  const take = async (length: number, keep: boolean): Promise<Uint8Array[]> => {
+    const chunks: Uint8Array[] = [];
+    while (length > 0) {
+      const chunk = await next();
+      if (!chunk) break;
+      if (chunk.byteLength > length) {
+        leftover = chunk.subarray(length);
+      }
+      const taken = chunk.subarray(0, length);
+      if (keep) chunks.push(taken);
+      position += taken.byteLength;
+      length -= taken.byteLength;
+    }
+    return chunks;
+  };
+
+  const readRange = async (
+    offset: number,
+    length: number
+  ): Promise<ArrayBuffer> => {
+    if (offset < position) {
+      throw new RangeError(
+        `Cannot read offset ${offset} after position ${position}`
+      );
+    }
+    await take(offset - position, false);
+    return concatBytes(await take(length, true));
+  };
+
+  return {
+    read(offset, length) {
+      const result = queue.then(() => readRange(offset, length));
+      queue = result.catch(() => {});
+      return result;
+    },
+    async cancel(reason) {
+      done = true;
+      leftover = undefined;
+      await reader.cancel(reason).catch(() => {});
+    }
+  };
+}
+
+/**
+ * Joins chunks of bytes into a single buffer.
+ * @param chunks - The chunks to join.
+ * @returns A new buffer holding the chunks in order.
+ */
+export function concatBytes(chunks: readonly Uint8Array[]): ArrayBuffer {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const buffer = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+}
+
+/**
+ * Returns the bytes covered by a view as an `ArrayBuffer`, respecting its
+ * `byteOffset` and `byteLength`. The underlying buffer is reused when the view covers it exactly.
+ * @param view - The typed array, `DataView` or Node.js `Buffer`.
+ * @returns A buffer holding exactly the bytes of the view.
+ */
+export function viewToArrayBuffer(view: ArrayBufferView): ArrayBuffer {
+  const { buffer, byteOffset, byteLength } = view;
+  if (
+    buffer instanceof ArrayBuffer &&
+    byteOffset === 0 &&
+    byteLength === buffer.byteLength
+  ) {
+    return buffer;
+  }
+  return concatBytes([new Uint8Array(buffer, byteOffset, byteLength)]);
+}
@@ -0,0 +1,82 @@
+import { NoCloudAPIError, NoCloudError } from "./errors";
+
+/**
+ * Creates the error thrown when a request or operation exceeds its time limit.
+ * @param timeoutMs - The exceeded time limit in milliseconds.
+ * @returns A NoCloudAPIError with the TIMEOUT code.
+ */
+export function createTimeoutError(timeoutMs: number): NoCloudAPIError {
+  return NoCloudAPIError.fromCode(
+    NoCloudError.TIMEOUT,
+    `Request timed out after ${timeoutMs}ms`
+  );
+}
+
+/**
+ * Creates a signal that aborts when the parent signal aborts or after a timeout.
+ * @param parent - Optional parent signal, e.g. one supplied by the caller.
+ * @param timeoutMs - Optional timeout in milliseconds.
+ * @returns The linked signal, a check for whether the timeout fired, and a cleanup function.
+ */
+export function linkSignal(
+  parent?: AbortSignal,
+  timeoutMs?: number
+): { signal: AbortSignal; timedOut: () => boolean; dispose: () => void } {
+  const controller = new AbortController();
+  let didTimeOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined && timeoutMs > 0
+      ? setTimeout(() => {
+          didTimeOut = true;
+          controller.abort(createTimeoutError(timeoutMs));
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    }
+  };
+}
+
+/**
+ * Runs an asynchronous function with a time limit.
+ * The function receives a signal that aborts when the parent signal aborts or the time limit is reached.
+ * @param parent - Optional parent signal, e.g. one supplied by the caller.
+ * @param timeoutMs - Optional time limit in milliseconds. No limit is applied if omitted.
+ * @param fn - The function to run.
+ * @returns The result of the function.
+ * @throws {NoCloudAPIError} With the TIMEOUT code if the time limit is reached.
+ */
+export async function withTimeout<T>(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  fn: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+  if (timeoutMs === undefined || timeoutMs <= 0) {
+    return fn(parent);
+  }
+
+  const { signal, timedOut, dispose } = linkSignal(parent, timeoutMs);
+  try {
+    return await fn(signal);
+  } catch (error) {
+    if (timedOut()) {
+      throw createTimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,96 @@
+import type { Logger, Span, SpanAttributes, Tracer } from "@/types";
+import { NoCloudAPIError } from "./errors";
+
+/**
+ * The tracer's span behind each wrapped span, so children are started under it.
+ */
+const tracerSpans = new WeakMap<Span, Span>();
+
+/**
+ * Runs an operation in a span and records its outcome.
+ * The span gets `status` (`ok` or `error`) and `duration.ms` attributes, plus `error.code`
+ * and `http.status_code` on failure. Operations without a parent are logged at `info`
+ * level when they complete and at `error` level when they fail.
+ * Errors thrown by the tracer are swallowed, so tracing never breaks an operation.
+ * @param tracer - The tracer to report to. Only the log records are written if omitted.
+ * @param logger - The logger to write to.
+ * @param name - The operation name.
+ * @param attributes - The attributes known when the operation starts.
+ * @param fn - The operation, receiving its span to add attributes and start child spans.
+ * @param parent - The enclosing span, for child operations.
+ * @returns The result of the operation.
+ * @throws The error thrown by the operation.
+ */
+export async function runInSpan<T>(
+  tracer: Tracer | undefined,
+  logger: Logger,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>,
+  parent?: Span
+): Promise<T> {
+  const startedAt = Date.now();
+  const recorded: SpanAttributes = {};
+  let inner: Span | undefined;
+  try {
+    inner = tracer?.startSpan(
+      name,
+      withoutUndefined(attributes),
+      parent && tracerSpans.get(parent)
+    );
+  } catch {
+    // A failing tracer must not fail the operation
+  }
+
+  const span: Span = {
+    setAttributes(attributes) {
+      Object.assign(recorded, withoutUndefined(attributes));
+      try {
+        inner?.setAttributes(withoutUndefined(attributes));
+      } catch {
+        // A failing tracer must not fail the operation
+      }
+    },
+    end(error) {
+      try {
+        inner?.end(error);
+      } catch {
+        // A failing tracer must not fail the operation
+      }
+    }
+  };
+  Object.assign(recorded, withoutUndefined(attributes));
+  if (inner) tracerSpans.set(span, inner);
+
+  try {
+    const result = await fn(span);
+    span.setAttributes({ status: "ok", "duration.ms": Date.now() - startedAt });
+    span.end();
+    if (!parent) logger.info(`${name} completed`, { ...recorded });
+    return result;
+  } catch (error) {
+    const apiError = NoCloudAPIError.fromError(error);
+    span.setAttributes({
+      status: "error",
+      "duration.ms": Date.now() - startedAt,
+      "error.code": apiError.code,
+      "http.status_code": apiError.status || undefined
+    });
+    span.end(apiError);
+    if (!parent) {
+      logger.error(`${name} failed`, {
+        ...recorded,
+        message: apiError.message
+      });
+    }
+    throw error;
+  }
+}
+
+function withoutUndefined(attributes: SpanAttributes): SpanAttributes {
+  const result: SpanAttributes = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
@@ -0,0 +1,128 @@
+import { NoCloudAPIError, NoCloudError } from "./errors";
+import type { FetchFunction, UploadProgress } from "@/types";
+
+export interface PutOptions {
+  /**
+   * The size of the body in bytes, sent as `Content-Length`.
+   */
+  contentLength: number;
+  /**
+   * Called as bytes of the body are handed to the transport.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+  /**
+   * Signal used to cancel the upload.
+   */
+  signal?: AbortSignal;
+  /**
+   * Time limit in milliseconds for the request.
+   */
+  timeoutMs?: number;
+  /**
+   * Additional request headers, such as checksums bound into the signed URL.
+   */
+  headers?: Record<string, string>;
+  /**
+   * The transport used for the request.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Creates a pass-through stream that reports the number of bytes read through it.
+ * @param total - The expected total number of bytes.
+ * @param onProgress - Callback invoked after each chunk.
+ * @returns A TransformStream that forwards chunks unchanged.
+ */
+export function createProgressStream(
+  total: number,
+  onProgress: (progress: UploadProgress) => void,
+): TransformStream<Uint8Array, Uint8Array> {
+  let loaded = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      controller.enqueue(chunk);
+      onProgress({
+        loaded,
+        total,
+        percent: total > 0 ? Math.min(100, (loaded / total) * 100) : 100,
+      });
+    },
+  });
+}
+
+/**
+ * Creates the error thrown when an operation is cancelled through its AbortSignal.
+ * @param message - The error message.
+ * @returns A NoCloudAPIError with the ABORTED code.
+ */
+export function createAbortError(
+  message: string = "The operation was aborted",
+): NoCloudAPIError {
+  return NoCloudAPIError.fromCode(NoCloudError.ABORTED, message);
+}
+
+/**
+ * Throws an ABORTED error if the given signal has already been aborted.
+ * @param signal - The signal to check.
+ * @throws {NoCloudAPIError} If the signal is aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Uploads a body to a signed URL with a single PUT request.
+ * @param url - The signed URL to upload to.
+ * @param body - The body to upload.
+ * @param options - Upload options.
+ * @returns The response of the PUT request.
+ * @throws {NoCloudAPIError} If the upload is aborted.
+ */
+export async function putToSignedUrl(
+  url: string,
+  body: Blob | ArrayBuffer | ReadableStream<Uint8Array>,
+  options: PutOptions,
+): Promise<Response> {
+  const {
+    contentLength,
+    onProgress,
+    signal,
+    fetch = globalThis.fetch,
+  } = options;
+  throwIfAborted(signal);
+
+  let requestBody: RequestInit["body"] = body;
+  if (onProgress) {
+    const source =
+      body instanceof ReadableStream
+        ? body
+        : (body instanceof Blob ? body : new Blob([body])).stream();
+    requestBody = source.pipeThrough(
+      createProgressStream(contentLength, onProgress),
+    );
+  }
+
+  try {
+    return await fetch(url, {
+      method: "PUT",
+      headers: {
+        ...options.headers,
+        "Content-Length": contentLength.toString(),
+      },
+      body: requestBody,
+      signal,
+      ...(requestBody instanceof ReadableStream ? { duplex: "half" } : {}),
+    } as RequestInit);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError("Upload was aborted");
+    }
+    throw error;
+  }
+}
@@ -1,59 +1,72 @@
+import type { StringEncoding } from "@/types";
+import { NoCloudAPIError, NoCloudError } from "./errors";
+import { SNIFF_LENGTH, sniffMimeType } from "./mime";
+
 /**
  * Delays execution for a specified number of milliseconds.
  * @param ms - The number of milliseconds to delay.
- * @returns A promise that resolves after the specified delay.
+ * @param signal - Optional signal that cancels the delay.
+ * @returns A promise that resolves after the specified delay, or rejects with the signal's reason if aborted.
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
- * Retries a given asynchronous function a specified number of times with a delay between attempts.
- * @param fn - The asynchronous function to retry.
- * @param retries - Number of retry attempts. Default is 3.
- * @param delayMs - Delay in milliseconds between retries. Default is 1000ms.
- * @returns The result of the asynchronous function if successful.
- * @throws The last encountered error if all retries fail.
+ * Runs an asynchronous function over a list of items with bounded concurrency.
+ * Stops scheduling new items and rejects as soon as one call fails.
+ * @param items - The items to process.
+ * @param concurrency - Maximum number of calls running at the same time.
+ * @param fn - The asynchronous function to call for each item.
+ * @returns The results, in the same order as the input items.
+ * @throws The first encountered error.
  */
-export async function withRetry<T = any>(
-  fn: () => Promise<T>,
-  retries: number = 3,
-  delayMs: number = 1000,
-): Promise<T> {
-  let lastError: unknown;
-
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-      if (attempt < retries) {
-        await delay(delayMs);
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index]!, index);
+      } catch (error) {
+        failed = true;
+        throw error;
       }
     }
-  }
+  };
 
-  throw lastError;
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
 }
 
-/**
- * Base64 magic byte signatures for MIME type detection.
- */
-const BASE64_SIGNATURES: Record<string, string> = {
-  iVBORw0KGgo: "image/png",
-  "/9j/": "image/jpeg",
-  R0lGOD: "image/gif",
-  UklGR: "image/webp",
-  AAAA: "video/mp4",
-  JVBERi0: "application/pdf",
-  UEsDB: "application/zip",
-  PD94bWw: "application/xml",
-  PHN2Zw: "image/svg+xml",
-};
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
 
 /**
  * Detects the MIME type from a base64 string.
- * Supports data URLs and raw base64 with magic byte detection.
+ * Supports data URLs and raw base64, whose leading bytes are decoded and sniffed.
  * @param str - The base64 string or data URL to detect.
  * @returns The detected MIME type or null if not detected.
  */
@@ -64,14 +77,20 @@ export function detectBase64MimeType(str: string): string | null {
     return dataUrlMatch[1];
   }
 
-  // Detect by base64 magic bytes (first few chars of encoded data)
-  for (const [prefix, mimeType] of Object.entries(BASE64_SIGNATURES)) {
-    if (str.startsWith(prefix)) {
-      return mimeType;
-    }
+  if (str.length < 4 || str.length % 4 === 1 || !BASE64_PATTERN.test(str)) {
+    return null;
   }
 
-  return null;
+  // Decode just enough characters to cover the sniffed prefix
+  const prefixLength = Math.ceil(SNIFF_LENGTH / 3) * 4;
+  const prefix = str.slice(0, prefixLength).replace(/=+$/, "");
+  try {
+    return sniffMimeType(
+      decodeBase64(prefix.slice(0, prefix.length - (prefix.length % 4))),
+    );
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -101,9 +120,19 @@ export function getBase64DecodedSize(base64: string): number {
  * Decodes a base64 string to a Uint8Array.
  * @param base64 - The raw base64 string (not a data URL).
  * @returns The decoded binary data as Uint8Array.
+ * @throws {NoCloudAPIError} With `INVALID_ENCODING` if the string is not valid base64.
  */
 export function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64);
+  let binaryString: string;
+  try {
+    binaryString = atob(base64);
+  } catch (error) {
+    throw NoCloudAPIError.fromCode(
+      NoCloudError.INVALID_ENCODING,
+      "Invalid base64 string",
+      { details: { encoding: "base64" }, cause: error },
+    );
+  }
   const bytes = new Uint8Array(binaryString.length);
   for (let i = 0; i < binaryString.length; i++) {
     bytes[i] = binaryString.charCodeAt(i);
@@ -111,6 +140,73 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Decodes a string to bytes using the given encoding.
+ * Base64 input may be a data URL and may contain whitespace; base64url input may omit padding.
+ * @param value - The string to decode.
+ * @param encoding - The encoding of the string.
+ * @returns The decoded bytes.
+ * @throws {NoCloudAPIError} With `INVALID_ENCODING` if the string is not valid for the encoding.
+ */
+export function decodeString(
+  value: string,
+  encoding: StringEncoding,
+): Uint8Array {
+  switch (encoding) {
+    case "utf8":
+      return new TextEncoder().encode(value);
+    case "base64":
+      return decodeBase64(extractBase64Data(value).replace(/\s+/g, ""));
+    case "base64url": {
+      const base64 = value
+        .replace(/\s+/g, "")
+        .replace(/-/g, "+")
+        .replace(/_/g, "/");
+      if (/[+/]/.test(value) || base64.length % 4 === 1) {
+        throw invalidEncoding(encoding);
+      }
+      return decodeBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+    }
+    case "hex": {
+      const hex = value.replace(/\s+/g, "");
+      if (!/^(?:[0-9a-fA-F]{2})*$/.test(hex)) {
+        throw invalidEncoding(encoding);
+      }
+      const bytes = new Uint8Array(hex.length / 2);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+      }
+      return bytes;
+    }
+    default:
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `Unsupported encoding "${encoding}"`,
+      );
+  }
+}
+
+function invalidEncoding(encoding: StringEncoding): NoCloudAPIError {
+  return NoCloudAPIError.fromCode(
+    NoCloudError.INVALID_ENCODING,
+    `Invalid ${encoding} string`,
+    { details: { encoding } },
+  );
+}
+
+/**
+ * Encodes binary data as a base64 string.
+ * @param bytes - The binary data to encode.
+ * @returns The base64-encoded string.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binaryString = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryString);
+}
+
 /**
  * Normalizes a MIME type by stripping parameters like charset.
  * e.g. "text/plain;charset=utf-8" -> "text/plain"
@@ -120,3 +216,22 @@ export function decodeBase64(base64: string): Uint8Array {
 export function normalizeMimeType(mimeType: string): string {
   return mimeType.split(";")[0]?.trim() ?? mimeType;
 }
+
+/**
+ * Parses a `Content-Range` response header.
+ * e.g. "bytes 0-99/1234" -> { start: 0, end: 99, total: 1234 }
+ * @param value - The header value.
+ * @returns The parsed range, or null if the value is missing or invalid.
+ */
+export function parseContentRange(
+  value: string | null,
+): { start: number; end: number; total: number | null } | null {
+  const match = value?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) return null;
+
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]),
+    total: match[3] === "*" ? null : Number(match[3]),
+  };
+}
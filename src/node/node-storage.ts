@@ -0,0 +1,210 @@
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { open, rename, stat, unlink, type FileHandle } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+// Imported from the package entry, which the `./node` build keeps external, so that
+// errors thrown here are instances of the classes applications import
+import {
+  NoCloudAPIError,
+  NoCloudError,
+  SNIFF_LENGTH,
+  sniffMimeType
+} from "@nocloud/sdk";
+import type { Storage } from "@/sdk/storage";
+import type {
+  FileMetadata,
+  RequestOptions,
+  UploadOptions,
+  UploadResponse
+} from "@/types";
+
+/**
+ * Options for uploading a file from disk.
+ */
+export interface UploadFileOptions extends UploadOptions {
+  /**
+   * The MIME type of the file. Sniffed from the content, then inferred from the extension, if omitted.
+   */
+  contentType?: string;
+}
+
+/**
+ * Result of downloading a file to disk.
+ */
+export interface DownloadFileResult {
+  /**
+   * The path the file was written to.
+   */
+  path: string;
+  /**
+   * The number of bytes written.
+   */
+  size: number;
+  /**
+   * The MIME type of the file.
+   */
+  contentType: string;
+  /**
+   * The ETag of the file, if reported.
+   */
+  etag: string | null;
+}
+
+/**
+ * Node.js file-system helpers for the storage module.
+ * Files are streamed from and to disk instead of being buffered in memory.
+ * @example
+ * ```ts
+ * import { NoCloud } from "@nocloud/sdk";
+ * import { NodeStorage } from "@nocloud/sdk/node";
+ *
+ * const cloud = new NoCloud("your-api-key");
+ * const files = new NodeStorage(cloud.storage);
+ *
+ * const { id } = await files.uploadFile("./photo.jpg", { userId: "123" });
+ * await files.downloadToFile(id, "./copy.jpg");
+ * ```
+ */
+export class NodeStorage {
+  /**
+   * @param storage - The storage module used for requests.
+   */
+  constructor(private readonly storage: Storage) {}
+
+  /**
+   * Uploads a file from disk.
+   * The file is streamed; its size is read from the file system.
+   * @param path - The path of the file to upload.
+   * @param metadata - Optional metadata associated with the file.
+   * @param options - Optional content type, progress, policy, checksum, and cancellation options.
+   * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
+   * @throws {NoCloudAPIError} If the path is not a readable file, or the upload fails or is aborted.
+   */
+  async uploadFile(
+    path: string,
+    metadata?: FileMetadata,
+    options: UploadFileOptions = {}
+  ): Promise<UploadResponse> {
+    const { contentType, ...uploadOptions } = options;
+    let handle: FileHandle;
+    try {
+      handle = await open(path, "r");
+    } catch (error) {
+      throw toFileError(error, path);
+    }
+
+    try {
+      const stats = await handle.stat();
+      if (!stats.isFile()) {
+        throw NoCloudAPIError.fromStatus(400, `"${path}" is not a file`);
+      }
+
+      return await this.storage.uploadStream(
+        handle.createReadStream({ start: 0, autoClose: false }),
+        contentType ?? (await detectFileMimeType(handle, path)),
+        stats.size,
+        metadata,
+        uploadOptions
+      );
+    } catch (error) {
+      throw toFileError(error, path);
+    } finally {
+      await handle.close().catch(() => {});
+    }
+  }
+
+  /**
+   * Downloads a stored file to disk.
+   * The body is written to a temporary file next to `path`, which is renamed into place
+   * once complete, so `path` never holds a partial file.
+   * @param mediaId - The ID of the media to download.
+   * @param path - The path to write the file to. An existing file is replaced.
+   * @param options - Optional cancellation and timeout options.
+   * @returns {Promise<DownloadFileResult>} The written path, size and content type.
+   * @throws {NoCloudAPIError} If the request fails or is aborted.
+   */
+  async downloadToFile(
+    mediaId: string,
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<DownloadFileResult> {
+    const content = await this.storage.get(mediaId, options);
+    const tempPath = join(
+      dirname(path),
+      `.${basename(path)}.${randomUUID()}.tmp`
+    );
+
+    try {
+      const source = content.body
+        ? Readable.fromWeb(content.body as unknown as NodeReadableStream)
+        : Readable.from([]);
+      await pipeline(source, createWriteStream(tempPath), {
+        signal: options.signal
+      });
+      await rename(tempPath, path);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      if (options.signal?.aborted) {
+        throw NoCloudAPIError.fromCode(
+          NoCloudError.ABORTED,
+          "Download was aborted",
+          { cause: error }
+        );
+      }
+      throw error;
+    }
+
+    const { size } = await stat(path);
+    return {
+      path,
+      size,
+      contentType: content.contentType,
+      etag: content.etag
+    };
+  }
+}
+
+/**
+ * Sniffs the MIME type of a file from its first bytes, falling back to its extension.
+ */
+async function detectFileMimeType(
+  handle: FileHandle,
+  path: string
+): Promise<string> {
+  const buffer = new Uint8Array(SNIFF_LENGTH);
+  const { bytesRead } = await handle.read(buffer, 0, SNIFF_LENGTH, 0);
+  return (
+    sniffMimeType(buffer.subarray(0, bytesRead), path) ??
+    "application/octet-stream"
+  );
+}
+
+/**
+ * Converts a file-system error to a NoCloudAPIError. NoCloudAPIErrors are returned as-is.
+ */
+function toFileError(error: unknown, path: string): NoCloudAPIError {
+  if (NoCloudAPIError.isError(error)) return error;
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (code === "ENOENT") {
+    return NoCloudAPIError.fromCode(
+      NoCloudError.RESOURCE_NOT_FOUND,
+      `"${path}" does not exist`,
+      { cause: error }
+    );
+  }
+  if (code === "EACCES" || code === "EPERM") {
+    return NoCloudAPIError.fromCode(
+      NoCloudError.FORBIDDEN,
+      `Permission denied reading "${path}"`,
+      { cause: error }
+    );
+  }
+  return NoCloudAPIError.fromCode(
+    NoCloudError.UNKNOWN_ERROR,
+    `Failed to read "${path}"`,
+    { cause: error }
+  );
+}
@@ -1,5 +1,19 @@
 import { Fetcher } from "@/lib";
-import { Storage } from "./storage";
+import type {
+  DedupeCache,
+  FetchFunction,
+  Interceptor,
+  LogLevel,
+  Logger,
+  RetryPolicy,
+  Tracer,
+  UploadPolicy,
+  UploadQueueOptions,
+} from "@/types";
+import { Storage, type StorageOptions } from "./storage";
+
+export { UploadQueue } from "./upload-queue";
+export { NoCloudUploader, type NoCloudUploaderOptions } from "./uploader";
 
 export interface NoCloudOptions {
   /**
@@ -22,10 +36,70 @@ export interface NoCloudOptions {
    */
   retries?: number;
   /**
-   * Delay in milliseconds between retry attempts.
+   * Delay in milliseconds before the first retry attempt.
    * @default 1000
    */
   retryDelayMs?: number;
+  /**
+   * Retry policy for API requests, including backoff, jitter, `Retry-After`
+   * handling and retryable status codes. Takes precedence over `retries` and `retryDelayMs`.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Custom `fetch` implementation used for every request, including uploads to signed URLs.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Hooks invoked around every HTTP request, including uploads to signed URLs.
+   * Use them to add headers, record timings, or short-circuit responses.
+   */
+  interceptors?: Interceptor[];
+  /**
+   * Time limit in milliseconds for each request attempt, including uploads to signed URLs.
+   * Each retry gets its own time limit. No limit is applied by default.
+   */
+  timeoutMs?: number;
+  /**
+   * Time limit in milliseconds for a whole operation, across all attempts and retries.
+   * No limit is applied by default.
+   */
+  deadlineMs?: number;
+  /**
+   * Validation rules checked before every upload, such as allowed types and size limits.
+   * Individual uploads can override them with the `policy` option.
+   */
+  uploadPolicy?: UploadPolicy;
+  /**
+   * Options for `storage.queue`, such as where queued uploads are persisted.
+   */
+  uploadQueue?: UploadQueueOptions;
+  /**
+   * Caches files found or created by `dedupe` uploads, so repeated uploads of the same
+   * content skip the API lookup. Use `LruDedupeCache` for an in-memory cache.
+   */
+  dedupeCache?: DedupeCache;
+  /**
+   * Base URL of public media, such as your CDN, under which a file's `url` is
+   * `<mediaBaseUrl>/<id>`. Lets `storage.imageUrl` and `storage.imageSrcSet` accept media IDs.
+   */
+  mediaBaseUrl?: string;
+  /**
+   * Receives log records: requests at `debug`, completed operations at `info`,
+   * retries at `warn` and failed operations at `error`. `console` can be used as-is.
+   * API keys and signed URL signatures are redacted.
+   */
+  logger?: Logger;
+  /**
+   * The minimum level passed to `logger`.
+   * @default "info"
+   */
+  logLevel?: LogLevel;
+  /**
+   * Receives a span for every operation, such as `storage.upload` with child spans
+   * for `signed-url` and `put`. Implement it to bridge spans to OpenTelemetry.
+   */
+  tracer?: Tracer;
 }
 
 /**
@@ -46,6 +120,7 @@ export interface NoCloudOptions {
  */
 export class NoCloud {
   private readonly fetcher;
+  private readonly storageOptions: StorageOptions;
 
   /**
    * Creates an instance of the NoCloud SDK.
@@ -68,6 +143,9 @@ export class NoCloud {
     if (typeof options === "string") {
       options = { apiKey: options };
     }
+    if (!options.apiKey) {
+      throw new Error("API key is required");
+    }
 
     this.fetcher = new Fetcher({
       apiKey: options.apiKey,
@@ -75,7 +153,21 @@ export class NoCloud {
       basePath: options.basePath,
       retries: options.retries,
       retryDelayMs: options.retryDelayMs,
+      retryPolicy: options.retryPolicy,
+      fetch: options.fetch,
+      interceptors: options.interceptors,
+      timeoutMs: options.timeoutMs,
+      deadlineMs: options.deadlineMs,
+      logger: options.logger,
+      logLevel: options.logLevel,
+      tracer: options.tracer,
     });
+    this.storageOptions = {
+      uploadPolicy: options.uploadPolicy,
+      uploadQueue: options.uploadQueue,
+      dedupeCache: options.dedupeCache,
+      mediaBaseUrl: options.mediaBaseUrl,
+    };
   }
 
   private _storage?: Storage;
@@ -83,6 +175,6 @@ export class NoCloud {
    * Storage module for handling file storage operations.
    */
   get storage(): Storage {
-    return (this._storage ??= new Storage(this.fetcher));
+    return (this._storage ??= new Storage(this.fetcher, this.storageOptions));
   }
 }
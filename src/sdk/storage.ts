@@ -1,42 +1,271 @@
-import { NoCloudAPIError } from "@/lib";
-import { resolveJsonResponse } from "@/lib/resolvers";
+import { NoCloudAPIError, NoCloudError } from "@/lib";
+import { computeChecksums, getChecksumHeaders } from "@/lib/checksum";
+import {
+  decryptStream,
+  encryptBody,
+  encryptStream,
+  readEncryptionInfo
+} from "@/lib/encryption";
+import { buildImageSrcSet, buildImageUrl } from "@/lib/image";
+import { transformImage } from "@/lib/image-transform";
+import { validateMetadata } from "@/lib/metadata";
+import { detectMimeType, sniffMimeType } from "@/lib/mime";
+import {
+  assertMaxSize,
+  enforceUploadPolicy,
+  resolveUploadPolicy
+} from "@/lib/policy";
+import { isSignedUrlExpired } from "@/lib/signed-url";
+import {
+  assertOkResponse,
+  createResponseError,
+  resolveJsonResponse
+} from "@/lib/resolvers";
+import type { Fetcher } from "@/lib/fetcher";
 import { SDKModule } from "@/lib/sdk-module";
+import {
+  concatBytes,
+  createSequentialReader,
+  isAsyncIterable,
+  limitStream,
+  readAll,
+  viewToArrayBuffer,
+  type SequentialReader,
+  type StreamSource
+} from "@/lib/streams";
+import { putToSignedUrl, throwIfAborted, type PutOptions } from "@/lib/upload";
 import {
   decodeBase64,
+  decodeString,
   detectBase64MimeType,
   extractBase64Data,
-  normalizeMimeType
+  mapConcurrent,
+  normalizeMimeType,
+  parseContentRange
 } from "@/lib/utils";
 import type {
+  BatchResult,
+  ChecksumAlgorithm,
+  DecryptedDownloadOptions,
+  DedupeCache,
+  DownloadFormat,
+  DownloadOptions,
   FileBody,
   FileMetadata,
+  ImageSrcSetOptions,
+  ImageTransformOptions,
+  ListOptions,
+  MediaContent,
+  MediaInfo,
+  MediaListPage,
+  MediaVisibility,
+  MetadataPatch,
+  MultipartInitResponse,
+  MultipartResumeToken,
+  MultipartUploadOptions,
+  RequestOptions,
+  SignedDownloadUrlOptions,
+  SignedDownloadUrlResponse,
+  SignedUploadOptions,
+  SignedUploadUrlOptions,
+  SignedUrlOptions,
   SignedUrlResponse,
+  Span,
+  UpdateMetadataOptions,
+  UploadChecksums,
+  UploadManyItem,
+  UploadManyOptions,
+  UploadOptions,
+  UploadPolicy,
+  UploadQueueOptions,
   UploadResponse
 } from "@/types";
+import { UploadQueue } from "./upload-queue";
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+const DEFAULT_DOWNLOAD_URL_TTL = 60 * 60;
+const MAX_SIGNED_URL_TTL = 7 * 24 * 60 * 60;
+const DEFAULT_EXPIRY_SKEW_MS = 5_000;
+const ENCRYPTED_CONTENT_TYPE = "application/octet-stream";
+
+/**
+ * Options for the storage module, taken from the client options.
+ */
+export interface StorageOptions {
+  /**
+   * Default validation rules for uploads.
+   */
+  uploadPolicy?: UploadPolicy;
+  /**
+   * Options for the upload queue.
+   */
+  uploadQueue?: UploadQueueOptions;
+  /**
+   * Cache of uploaded files by content, for `dedupe`.
+   */
+  dedupeCache?: DedupeCache;
+  /**
+   * Public base URL of media files, for building image URLs from media IDs.
+   */
+  mediaBaseUrl?: string;
+}
 
 /**
  * Storage module for handling file storage operations.
  */
 export class Storage extends SDKModule {
+  private readonly uploadPolicy?: UploadPolicy;
+  private readonly queueOptions?: UploadQueueOptions;
+  private readonly dedupeCache?: DedupeCache;
+  private readonly mediaBaseUrl?: string;
+
+  /**
+   * @param fetcher - The fetcher used for API requests.
+   * @param options - Upload policy, upload queue, dedupe cache and media URL options.
+   */
+  constructor(fetcher: Fetcher, options: StorageOptions = {}) {
+    super(fetcher);
+    this.uploadPolicy = options.uploadPolicy;
+    this.queueOptions = options.uploadQueue;
+    this.dedupeCache = options.dedupeCache;
+    this.mediaBaseUrl = options.mediaBaseUrl;
+  }
+
+  /**
+   * Dedupe cache keys of the files cached by this instance, by media ID,
+   * so they can be evicted when the file is deleted or its visibility changes.
+   */
+  private readonly dedupeKeys = new Map<string, string>();
+
+  private _queue?: UploadQueue;
+  /**
+   * Queue of uploads that are persisted until they succeed, for offline and flaky networks.
+   */
+  get queue(): UploadQueue {
+    return (this._queue ??= new UploadQueue(this, this.queueOptions));
+  }
+
   /**
    * Generates a signed URL for uploading a file.
    * @param contentType - The MIME type of the file.
    * @param size - The size of the file in bytes.
    * @param metadata - Optional metadata associated with the file.
+   * @param options - Optional checksums to bind into the URL, and cancellation and timeout options.
    * @returns {Promise<SignedUrlResponse>} An object containing the signed URL and its expiration time.
    * @throws {NoCloudAPIError} If the API request fails.
    */
   async generateSignedUrl(
     contentType: string,
     size: number,
-    metadata?: FileMetadata
+    metadata?: FileMetadata,
+    options: SignedUrlOptions = {}
   ): Promise<SignedUrlResponse> {
+    return this.trace(
+      "storage.generateSignedUrl",
+      { "media.content_type": contentType, "media.size": size },
+      (span) =>
+        this.requestSignedUrl(contentType, size, metadata, options, span)
+    );
+  }
+
+  /**
+   * Requests a signed upload URL for `generateSignedUrl` and the upload methods.
+   */
+  private async requestSignedUrl(
+    contentType: string,
+    size: number,
+    metadata: FileMetadata | undefined,
+    options: SignedUrlOptions,
+    span: Span
+  ): Promise<SignedUrlResponse> {
+    if (metadata) validateMetadata(metadata);
     const queryParams = new URLSearchParams();
     queryParams.append("contentType", contentType);
     queryParams.append("size", size.toString());
     if (metadata) queryParams.append("metadata", JSON.stringify(metadata));
+    if (options.checksums) {
+      queryParams.append("checksums", JSON.stringify(options.checksums));
+    }
+    if (options.visibility) {
+      queryParams.append("visibility", options.visibility);
+    }
     const response = await this.fetch(
-      `storage/signed-url?${queryParams.toString()}`
+      `storage/signed-url?${queryParams.toString()}`,
+      {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        deadlineMs: options.deadlineMs,
+        span
+      }
+    );
+
+    const signed = await resolveJsonResponse<SignedUrlResponse>(response);
+    span.setAttributes({ "media.id": signed.mediaId });
+    return signed;
+  }
+
+  /**
+   * Generates a signed URL for another client, such as a browser, to upload a file
+   * whose exact size is not known yet. Pass the result to `uploadToSignedUrl` or `NoCloudUploader`.
+   * The file's type, maximum size, metadata and visibility are bound into the URL.
+   * @param options - The constraints, metadata and lifetime of the URL, and cancellation and timeout options.
+   * @returns {Promise<SignedUrlResponse>} An object containing the signed URL, its expiration time and constraints.
+   * @throws {NoCloudAPIError} If the options are invalid or the API request fails.
+   */
+  async createSignedUploadUrl(
+    options: SignedUploadUrlOptions
+  ): Promise<SignedUrlResponse> {
+    return this.trace(
+      "storage.createSignedUploadUrl",
+      {
+        "media.content_type": options.contentType,
+        "media.max_size": options.maxSize
+      },
+      (span) => this.requestSignedUploadUrl(options, span)
+    );
+  }
+
+  /**
+   * Validates the options and requests a constrained signed URL for `createSignedUploadUrl`.
+   */
+  private async requestSignedUploadUrl(
+    options: SignedUploadUrlOptions,
+    span: Span
+  ): Promise<SignedUrlResponse> {
+    const { contentType, maxSize, metadata, visibility, expiresIn } = options;
+    if (!/^[\w.+-]+\/(\*|[\w.+-]+)$/.test(contentType)) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `Invalid content type "${contentType}"`
+      );
+    }
+    if (!Number.isInteger(maxSize) || maxSize <= 0) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        "maxSize must be a positive whole number of bytes"
+      );
+    }
+    if (expiresIn !== undefined) validateExpiresIn(expiresIn);
+    if (metadata) validateMetadata(metadata);
+
+    const queryParams = new URLSearchParams();
+    queryParams.append("contentType", normalizeMimeType(contentType));
+    queryParams.append("maxSize", maxSize.toString());
+    if (metadata) queryParams.append("metadata", JSON.stringify(metadata));
+    if (visibility) queryParams.append("visibility", visibility);
+    if (expiresIn !== undefined) {
+      queryParams.append("expiresIn", expiresIn.toString());
+    }
+    const response = await this.fetch(
+      `storage/signed-url?${queryParams.toString()}`,
+      {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        deadlineMs: options.deadlineMs,
+        span
+      }
     );
 
     return resolveJsonResponse<SignedUrlResponse>(response);
@@ -45,170 +274,1745 @@ export class Storage extends SDKModule {
   /**
    * Extracts content type, size, and normalized body from the input.
    * For base64 strings, this decodes them to binary.
+   * Binary bodies without a declared type are sniffed from their leading bytes.
+   * Views are reduced to the bytes they cover; streams and async iterables are
+   * read into memory, since the size must be known before uploading, and cancelled once
+   * they exceed the policy's `maxSize`.
+   * Images are preprocessed if `transform` is set, and the upload policy is enforced
+   * against the result before returning.
    */
-  private getBodyInfo(body: FileBody): {
+  private async getBodyInfo(
+    body: FileBody,
+    options: Pick<
+      UploadOptions,
+      "policy" | "contentType" | "encoding" | "transform"
+    > = {}
+  ): Promise<{
     contentType: string;
     size: number;
     normalizedBody: Blob | ArrayBuffer;
-  } {
-    if (typeof Blob !== "undefined" && body instanceof Blob) {
-      return {
-        contentType: normalizeMimeType(body.type) || "application/octet-stream",
-        size: body.size,
-        normalizedBody: body
-      };
+  }> {
+    const resolvedPolicy = resolveUploadPolicy(
+      this.uploadPolicy,
+      options.policy
+    );
+    const verify = resolvedPolicy.verifyContentType === true;
+    let contentType: string;
+    let size: number;
+    let normalizedBody: Blob | ArrayBuffer;
+    let declaredType: string | null = null;
+    let detectedType: string | null = null;
+
+    if (isStreamBody(body)) {
+      // Stop reading once the stream exceeds `maxSize`, unless it is an image that
+      // `transform` may still shrink below it
+      body = await readAll(
+        options.transform
+          ? body
+          : limitStream(body, (size) => assertMaxSize(resolvedPolicy, size))
+      );
     }
-    if (typeof ArrayBuffer !== "undefined" && body instanceof ArrayBuffer) {
-      return {
-        contentType: "application/octet-stream",
-        size: body.byteLength,
-        normalizedBody: body
-      };
+    if (ArrayBuffer.isView(body)) {
+      body = viewToArrayBuffer(body);
     }
-    if (typeof body === "string") {
-      const detectedType = detectBase64MimeType(body);
-      if (detectedType) {
+
+    if (typeof Blob !== "undefined" && body instanceof Blob) {
+      declaredType = normalizeMimeType(body.type) || null;
+      if (!declaredType || verify) detectedType = await detectMimeType(body);
+      contentType = declaredType || detectedType || "application/octet-stream";
+      size = body.size;
+      normalizedBody = body;
+    } else if (
+      typeof ArrayBuffer !== "undefined" &&
+      body instanceof ArrayBuffer
+    ) {
+      detectedType = sniffMimeType(body);
+      contentType = detectedType || "application/octet-stream";
+      size = body.byteLength;
+      normalizedBody = body;
+    } else if (typeof body === "string" && options.encoding) {
+      const decoded = decodeString(body, options.encoding);
+      if (options.encoding === "utf8") {
+        contentType = "text/plain";
+      } else {
+        declaredType = body.match(/^data:([^;,]+)/)?.[1] ?? null;
+        detectedType = sniffMimeType(decoded);
+        contentType =
+          declaredType || detectedType || "application/octet-stream";
+      }
+      size = decoded.byteLength;
+      normalizedBody = new Blob([decoded.buffer as ArrayBuffer]);
+    } else if (typeof body === "string") {
+      const base64Type = detectBase64MimeType(body);
+      if (base64Type) {
         // It's base64 - decode to binary
         const rawBase64 = extractBase64Data(body);
         const decoded = decodeBase64(rawBase64);
-        return {
-          contentType: detectedType,
-          size: decoded.byteLength,
-          normalizedBody: new Blob([decoded.buffer as ArrayBuffer])
-        };
+        if (body.startsWith("data:")) {
+          declaredType = base64Type;
+          if (verify) detectedType = sniffMimeType(decoded);
+        }
+        contentType = base64Type;
+        size = decoded.byteLength;
+        normalizedBody = new Blob([decoded.buffer as ArrayBuffer]);
+      } else {
+        const encoded = new TextEncoder().encode(body);
+        contentType = "text/plain";
+        size = encoded.length;
+        normalizedBody = new Blob([encoded.buffer as ArrayBuffer]);
+      }
+    } else {
+      throw NoCloudAPIError.fromStatus(400, "Unsupported body type");
+    }
+
+    if (options.contentType) {
+      declaredType = contentType = normalizeMimeType(options.contentType);
+      if (verify && !detectedType && typeof body !== "string") {
+        detectedType = await detectMimeType(body);
       }
-      const encoded = new TextEncoder().encode(body);
-      return {
-        contentType: "text/plain",
-        size: encoded.length,
-        normalizedBody: new Blob([encoded.buffer as ArrayBuffer])
-      };
     }
-    throw NoCloudAPIError.fromStatus(400, "Unsupported body type");
+
+    if (options.transform) {
+      const transformed = await transformImage(
+        normalizedBody,
+        options.transform
+      );
+      if (transformed) {
+        contentType = transformed.contentType;
+        size = transformed.body.byteLength;
+        normalizedBody = transformed.body;
+      }
+    }
+
+    enforceUploadPolicy(resolvedPolicy, {
+      contentType,
+      size,
+      declaredType,
+      detectedType
+    });
+    return { contentType, size, normalizedBody };
   }
 
   /**
    * Uploads a file to R2 storage using S3-compatible API.
-   * @param body The file body to upload. Supports File, Blob, ArrayBuffer, or string.
+   * With `encryption`, the body is encrypted after preprocessing and the upload policy check.
+   * @param body The file body to upload. Supports File, Blob, ArrayBuffer, typed arrays and Buffers, strings, and streams.
    * @param metadata Optional metadata associated with the file.
+   * @param options Optional upload options for progress reporting and cancellation.
    * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
-   * @throws {NoCloudAPIError} If the upload fails.
+   * @throws {NoCloudAPIError} If the upload fails or is aborted.
    */
   async upload(
     body: FileBody,
-    metadata?: FileMetadata
+    metadata?: FileMetadata,
+    options: UploadOptions = {}
   ): Promise<UploadResponse> {
-    const { contentType, size, normalizedBody } = this.getBodyInfo(body);
-    const { url, mediaUrl, mediaId } = await this.generateSignedUrl(
-      contentType,
-      size,
-      metadata
-    );
+    return this.performUpload(body, metadata, options);
+  }
 
-    const uploadResponse = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "Content-Length": size.toString()
+  /**
+   * Runs `upload` in a `storage.upload` span, with child spans for each request.
+   */
+  private performUpload(
+    body: FileBody,
+    metadata: FileMetadata | undefined,
+    options: UploadOptions,
+    parent?: Span
+  ): Promise<UploadResponse> {
+    return this.trace(
+      "storage.upload",
+      { dedupe: options.dedupe, encrypted: !!options.encryption },
+      async (span) => {
+        assertDedupeSupported(options);
+        let { contentType, size, normalizedBody } = await this.getBodyInfo(
+          body,
+          options
+        );
+        if (options.encryption) {
+          const encrypted = await encryptBody(
+            normalizedBody,
+            contentType,
+            options.encryption
+          );
+          metadata = { ...metadata, ...encrypted.metadata };
+          contentType = ENCRYPTED_CONTENT_TYPE;
+          size = encrypted.size;
+          normalizedBody = encrypted.body;
+        }
+        span.setAttributes({
+          "media.content_type": contentType,
+          "media.size": size
+        });
+
+        return this.withDeadline(options, async (signal) => {
+          const algorithms = getChecksumAlgorithms(options);
+          const checksums = algorithms.length
+            ? await computeChecksums(normalizedBody, algorithms)
+            : undefined;
+          if (options.dedupe) {
+            const existing = await this.findDuplicate(
+              checksums!.sha256!,
+              size,
+              options.visibility,
+              { signal, timeoutMs: options.timeoutMs },
+              span
+            );
+            if (existing) return existing;
+          }
+
+          const { url, mediaUrl, mediaId } = await this.trace(
+            "signed-url",
+            { "media.content_type": contentType, "media.size": size },
+            (child) =>
+              this.requestSignedUrl(
+                contentType,
+                size,
+                metadata,
+                {
+                  signal,
+                  timeoutMs: options.timeoutMs,
+                  checksums,
+                  visibility: options.visibility
+                },
+                child
+              ),
+            span
+          );
+          span.setAttributes({ "media.id": mediaId });
+
+          await this.trace(
+            "put",
+            { "media.size": size },
+            async (child) => {
+              const uploadResponse = await this.put(url, normalizedBody, {
+                contentLength: size,
+                onProgress: options.onProgress,
+                signal,
+                timeoutMs: options.timeoutMs,
+                headers: checksums && getChecksumHeaders(checksums),
+                span: child
+              });
+
+              if (!uploadResponse.ok) {
+                throw await createResponseError(
+                  uploadResponse,
+                  "Failed to upload file to R2"
+                );
+              }
+            },
+            span
+          );
+
+          if (options.dedupe) {
+            await this.cacheDuplicate(checksums!.sha256!, options.visibility, {
+              id: mediaId,
+              url: mediaUrl
+            });
+          }
+          return {
+            id: mediaId,
+            url: mediaUrl,
+            ...(checksums && { checksums })
+          };
+        });
       },
-      body: normalizedBody
-    });
+      parent
+    );
+  }
 
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse
-        .text()
-        .catch(() => uploadResponse.statusText);
-      throw NoCloudAPIError.fromStatus(
-        uploadResponse.status,
-        `Failed to upload file to R2: ${errorText}`
-      );
+  /**
+   * Uploads a file to a signed URL generated elsewhere, such as by your backend.
+   * The body is checked against the URL's constraints and expiration time before it is sent,
+   * and failed attempts are retried while the URL is valid.
+   * @param signed The signed URL response from `generateSignedUrl` or `createSignedUploadUrl`.
+   * @param body The file body to upload.
+   * @param options Optional upload options for progress reporting and cancellation.
+   * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
+   * @throws {NoCloudAPIError} If the URL has expired, the body violates its constraints, or the upload fails or is aborted.
+   */
+  async uploadToSignedUrl(
+    signed: SignedUrlResponse,
+    body: FileBody,
+    options: SignedUploadOptions = {}
+  ): Promise<UploadResponse> {
+    return this.trace(
+      "storage.uploadToSignedUrl",
+      { "media.id": signed.mediaId },
+      async (span) => {
+        const skewMs = options.expirySkewMs ?? DEFAULT_EXPIRY_SKEW_MS;
+        assertNotExpired(signed, skewMs);
+        const { contentType, size, normalizedBody } = await this.getBodyInfo(
+          body,
+          {
+            ...options,
+            policy: signed.constraints
+              ? {
+                  ...options.policy,
+                  allowedTypes: [signed.constraints.contentType],
+                  maxSize: signed.constraints.maxSize
+                }
+              : options.policy
+          }
+        );
+        span.setAttributes({
+          "media.content_type": contentType,
+          "media.size": size
+        });
+
+        return this.withDeadline(options, (signal) =>
+          this.trace(
+            "put",
+            { "media.size": size },
+            async (child) => {
+              const uploadResponse = await this.retry(
+                (attempt) => {
+                  assertNotExpired(signed, skewMs);
+                  return this.put(signed.url, normalizedBody, {
+                    contentLength: size,
+                    onProgress: options.onProgress,
+                    signal,
+                    timeoutMs: options.timeoutMs,
+                    headers: { "Content-Type": contentType },
+                    attempt,
+                    span: child
+                  });
+                },
+                { method: "PUT", signal, url: signed.url }
+              );
+
+              if (!uploadResponse.ok) {
+                throw await createResponseError(
+                  uploadResponse,
+                  "Failed to upload file to signed URL"
+                );
+              }
+
+              return { id: signed.mediaId, url: signed.mediaUrl };
+            },
+            span
+          )
+        );
+      }
+    );
+  }
+
+  /**
+   * Uploads a value serialized as JSON.
+   * @param value The value to serialize.
+   * @param metadata Optional metadata associated with the file.
+   * @param options Optional upload options for progress reporting and cancellation.
+   * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
+   * @throws {NoCloudAPIError} If the value cannot be serialized, or the upload fails or is aborted.
+   */
+  async uploadJson(
+    value: unknown,
+    metadata?: FileMetadata,
+    options: Omit<UploadOptions, "contentType" | "encoding"> = {}
+  ): Promise<UploadResponse> {
+    let json: string | undefined;
+    try {
+      json = JSON.stringify(value);
+    } catch (error) {
+      throw NoCloudAPIError.fromStatus(400, "Value is not JSON-serializable", {
+        cause: error
+      });
+    }
+    if (json === undefined) {
+      throw NoCloudAPIError.fromStatus(400, "Value is not JSON-serializable");
     }
+    return this.upload(json, metadata, {
+      ...options,
+      contentType: "application/json",
+      encoding: "utf8"
+    });
+  }
+
+  /**
+   * Uploads multiple files with bounded concurrency.
+   * Failures are reported per item instead of rejecting the whole batch.
+   * @param items The files to upload, each with optional metadata.
+   * @param options Optional concurrency, stop-on-error, completion callback, policy, and cancellation options.
+   * @returns {Promise<BatchResult<UploadResponse>[]>} One result per item, in input order.
+   */
+  async uploadMany(
+    items: UploadManyItem[],
+    options: UploadManyOptions = {}
+  ): Promise<BatchResult<UploadResponse>[]> {
+    const { concurrency = 4, stopOnError, onItemComplete } = options;
+
+    return this.trace("storage.uploadMany", { count: items.length }, (span) =>
+      this.withDeadline(options, (signal) => {
+        let stopped = false;
 
-    return { id: mediaId, url: mediaUrl };
+        return mapConcurrent(items, concurrency, async (item, index) => {
+          let result: BatchResult<UploadResponse>;
+          if (stopped) {
+            result = {
+              ok: false,
+              index,
+              error: NoCloudAPIError.fromCode(
+                NoCloudError.ABORTED,
+                "Skipped after an earlier upload failed"
+              )
+            };
+          } else {
+            try {
+              const value = await this.performUpload(
+                item.body,
+                item.metadata,
+                {
+                  signal,
+                  timeoutMs: options.timeoutMs,
+                  policy: options.policy,
+                  checksum: options.checksum,
+                  encoding: options.encoding,
+                  visibility: options.visibility,
+                  transform: options.transform,
+                  encryption: options.encryption,
+                  dedupe: options.dedupe,
+                  contentType: item.contentType
+                },
+                span
+              );
+              result = { ok: true, index, value };
+            } catch (error) {
+              if (stopOnError) stopped = true;
+              result = {
+                ok: false,
+                index,
+                error: NoCloudAPIError.fromError(error)
+              };
+            }
+          }
+          onItemComplete?.(result);
+          return result;
+        });
+      })
+    );
   }
 
   /**
-   * Uploads a ReadableStream to R2 storage using S3-compatible API.
-   * @param stream The ReadableStream to upload.
+   * Uploads a stream to R2 storage using S3-compatible API.
+   * With `encryption`, the stream is encrypted chunk by chunk as it is sent.
+   * @param stream The ReadableStream, Node.js Readable or async iterable to upload.
    * @param contentType The MIME type of the content.
    * @param contentLength The size of the content in bytes.
    * @param metadata Optional metadata associated with the file.
+   * @param options Optional upload options for progress reporting and cancellation.
    * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
-   * @throws {NoCloudAPIError} If the upload fails.
+   * @throws {NoCloudAPIError} If the upload fails or is aborted.
    */
   async uploadStream(
-    stream: ReadableStream,
+    stream: StreamSource,
     contentType: string,
     contentLength: number,
-    metadata?: FileMetadata
+    metadata?: FileMetadata,
+    options: UploadOptions = {}
   ): Promise<UploadResponse> {
-    const { url, mediaUrl, mediaId } = await this.generateSignedUrl(
-      contentType,
-      contentLength,
-      metadata
+    return this.trace(
+      "storage.uploadStream",
+      {
+        "media.content_type": contentType,
+        "media.size": contentLength,
+        dedupe: options.dedupe,
+        encrypted: !!options.encryption
+      },
+      (span) =>
+        this.performUploadStream(
+          stream,
+          contentType,
+          contentLength,
+          metadata,
+          options,
+          span
+        )
     );
+  }
 
-    const uploadResponse = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "Content-Length": contentLength.toString()
+  /**
+   * Runs `uploadStream` in its span, with child spans for each request.
+   */
+  private async performUploadStream(
+    stream: StreamSource,
+    contentType: string,
+    contentLength: number,
+    metadata: FileMetadata | undefined,
+    options: UploadOptions,
+    span: Span
+  ): Promise<UploadResponse> {
+    assertDedupeSupported(options);
+    enforceUploadPolicy(
+      resolveUploadPolicy(this.uploadPolicy, options.policy),
+      {
+        contentType: normalizeMimeType(contentType),
+        size: contentLength
+      }
+    );
+
+    return this.withDeadline(options, async (signal) => {
+      // The declared length passed the policy, so a longer stream is cut off
+      let body: ReadableStream<Uint8Array> | ArrayBuffer = limitStream(
+        stream,
+        (size) => {
+          if (size > contentLength) {
+            throw NoCloudAPIError.fromStatus(
+              400,
+              `Stream is longer than the declared length of ${contentLength} bytes`
+            );
+          }
+        }
+      );
+      if (options.encryption) {
+        const encrypted = await encryptStream(
+          body,
+          normalizeMimeType(contentType),
+          contentLength,
+          options.encryption
+        );
+        metadata = { ...metadata, ...encrypted.metadata };
+        contentType = ENCRYPTED_CONTENT_TYPE;
+        contentLength = encrypted.size;
+        body = encrypted.body;
+        span.setAttributes({
+          "media.content_type": contentType,
+          "media.size": contentLength
+        });
+      }
+      let checksums: UploadChecksums | undefined;
+      const algorithms = getChecksumAlgorithms(options);
+      if (algorithms.length) {
+        // The checksum must be known before the PUT, so the stream is buffered
+        const chunks: Uint8Array[] = [];
+        checksums = await computeChecksums(body, algorithms, (chunk) =>
+          chunks.push(chunk)
+        );
+        body = concatBytes(chunks);
+      }
+      if (options.dedupe) {
+        const existing = await this.findDuplicate(
+          checksums!.sha256!,
+          contentLength,
+          options.visibility,
+          { signal, timeoutMs: options.timeoutMs },
+          span
+        );
+        if (existing) return existing;
+      }
+
+      const { url, mediaUrl, mediaId } = await this.trace(
+        "signed-url",
+        { "media.content_type": contentType, "media.size": contentLength },
+        (child) =>
+          this.requestSignedUrl(
+            contentType,
+            contentLength,
+            metadata,
+            {
+              signal,
+              timeoutMs: options.timeoutMs,
+              checksums,
+              visibility: options.visibility
+            },
+            child
+          ),
+        span
+      );
+      span.setAttributes({ "media.id": mediaId });
+
+      await this.trace(
+        "put",
+        { "media.size": contentLength },
+        async (child) => {
+          const uploadResponse = await this.put(url, body, {
+            contentLength,
+            onProgress: options.onProgress,
+            signal,
+            timeoutMs: options.timeoutMs,
+            headers: checksums && getChecksumHeaders(checksums),
+            span: child
+          });
+
+          if (!uploadResponse.ok) {
+            throw await createResponseError(
+              uploadResponse,
+              "Failed to upload stream to R2"
+            );
+          }
+        },
+        span
+      );
+
+      if (options.dedupe) {
+        await this.cacheDuplicate(checksums!.sha256!, options.visibility, {
+          id: mediaId,
+          url: mediaUrl
+        });
+      }
+      return { id: mediaId, url: mediaUrl, ...(checksums && { checksums }) };
+    });
+  }
+
+  /**
+   * Uploads a large file in parts using an S3-style multipart flow.
+   * Parts are uploaded in parallel and retried individually. Pass the token from
+   * `onPartComplete` back as `resumeToken` to continue an interrupted upload; this
+   * needs `abortOnFailure: false`, since failed uploads are aborted by default.
+   * @param body The file body to upload. Supports File, Blob, ArrayBuffer, typed arrays and Buffers, strings, and streams.
+   * Streams are read one part at a time and need `options.size`.
+   * @param options Optional metadata, part size, concurrency, retry, progress, and resume options.
+   * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
+   * @throws {NoCloudAPIError} If the upload fails or is aborted.
+   */
+  async uploadMultipart(
+    body: FileBody,
+    options: MultipartUploadOptions = {}
+  ): Promise<UploadResponse> {
+    return this.trace("storage.uploadMultipart", {}, (span) =>
+      this.withDeadline(options, (signal) =>
+        this.performMultipartUpload(body, { ...options, signal }, span)
+      )
+    );
+  }
+
+  /**
+   * Runs the multipart upload flow for `uploadMultipart`.
+   */
+  private async performMultipartUpload(
+    body: FileBody,
+    options: MultipartUploadOptions,
+    span: Span
+  ): Promise<UploadResponse> {
+    const { metadata, signal, timeoutMs } = options;
+    // Rejected for JavaScript callers, which would otherwise skip verification silently
+    if ((options as UploadOptions).checksum) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        "checksum is not supported for multipart uploads"
+      );
+    }
+    let contentType: string;
+    let size: number;
+    let readPart: (start: number, end: number) => Promise<Blob | ArrayBuffer>;
+    let reader: SequentialReader | undefined;
+    if (isStreamBody(body)) {
+      if (options.size === undefined) {
+        throw NoCloudAPIError.fromStatus(
+          400,
+          "size is required to upload a stream in parts"
+        );
+      }
+      if (!Number.isSafeInteger(options.size) || options.size < 0) {
+        throw NoCloudAPIError.fromStatus(
+          400,
+          "size must be a non-negative integer"
+        );
+      }
+      if (options.transform) {
+        throw NoCloudAPIError.fromStatus(
+          400,
+          "transform is not supported for streams"
+        );
+      }
+      contentType =
+        normalizeMimeType(options.contentType ?? "") ||
+        "application/octet-stream";
+      size = options.size;
+      enforceUploadPolicy(
+        resolveUploadPolicy(this.uploadPolicy, options.policy),
+        { contentType, size }
+      );
+      const streamReader = createSequentialReader(body);
+      reader = streamReader;
+      readPart = async (start, end) => {
+        // The last part reads one extra byte to detect a stream longer than `size`
+        const length = end - start + (end === size ? 1 : 0);
+        const chunk = await streamReader.read(start, length);
+        if (chunk.byteLength < end - start) {
+          throw NoCloudAPIError.fromStatus(
+            400,
+            `Stream ended before the declared size of ${size} bytes`
+          );
+        }
+        if (chunk.byteLength > end - start) {
+          throw NoCloudAPIError.fromStatus(
+            400,
+            `Stream is longer than the declared size of ${size} bytes`
+          );
+        }
+        return chunk;
+      };
+    } else {
+      const info = await this.getBodyInfo(body, options);
+      contentType = info.contentType;
+      size = info.size;
+      readPart = async (start, end) => info.normalizedBody.slice(start, end);
+    }
+    span.setAttributes({
+      "media.content_type": contentType,
+      "media.size": size,
+      resumed: !!options.resumeToken
+    });
+
+    let token = options.resumeToken;
+    if (token) {
+      if (token.size !== size || token.contentType !== contentType) {
+        throw NoCloudAPIError.fromStatus(
+          400,
+          "Resume token does not match the upload body"
+        );
+      }
+    } else {
+      const partSize = this.resolvePartSize(size, options.partSize);
+      const { uploadId, mediaId, mediaUrl } = await this.trace(
+        "initiate",
+        { "part.size": partSize },
+        (child) =>
+          this.initiateMultipart(contentType, size, partSize, metadata, {
+            signal,
+            timeoutMs,
+            visibility: options.visibility,
+            span: child
+          }),
+        span
+      );
+      token = {
+        uploadId,
+        mediaId,
+        mediaUrl,
+        contentType,
+        size,
+        partSize,
+        parts: []
+      };
+    }
+
+    try {
+      return await this.uploadMultipartParts(readPart, token, options, span);
+    } catch (error) {
+      if (options.abortOnFailure ?? true) {
+        const { uploadId } = token;
+        // The caller's signal may be aborted, so the cleanup request does not use it
+        await this.trace(
+          "abort",
+          {},
+          (child) => this.discardMultipart(uploadId, { timeoutMs }, child),
+          span
+        ).catch(() => {});
+      }
+      throw error;
+    } finally {
+      await reader?.cancel();
+    }
+  }
+
+  /**
+   * Uploads the missing parts of a multipart upload and completes it.
+   */
+  private async uploadMultipartParts(
+    readPart: (start: number, end: number) => Promise<Blob | ArrayBuffer>,
+    token: MultipartResumeToken,
+    options: MultipartUploadOptions,
+    span: Span
+  ): Promise<UploadResponse> {
+    const { signal, timeoutMs, onProgress, onPartComplete } = options;
+    const { uploadId, partSize, size } = token;
+    const partCount = Math.max(1, Math.ceil(size / partSize));
+    span.setAttributes({
+      "media.id": token.mediaId,
+      "part.size": partSize,
+      "part.count": partCount
+    });
+    const completed = new Set(token.parts.map((part) => part.partNumber));
+    const pending: number[] = [];
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (!completed.has(partNumber)) pending.push(partNumber);
+    }
+
+    const partLength = (partNumber: number) =>
+      Math.min(partNumber * partSize, size) - (partNumber - 1) * partSize;
+    let completedBytes = token.parts.reduce(
+      (sum, part) => sum + partLength(part.partNumber),
+      0
+    );
+    const inFlight = new Map<number, number>();
+    const reportProgress = () => {
+      if (!onProgress) return;
+      let loaded = completedBytes;
+      for (const bytes of inFlight.values()) loaded += bytes;
+      onProgress({
+        loaded,
+        total: size,
+        percent: size > 0 ? Math.min(100, (loaded / size) * 100) : 100
+      });
+    };
+
+    await mapConcurrent(
+      pending,
+      options.concurrency ?? 4,
+      async (partNumber) => {
+        const start = (partNumber - 1) * partSize;
+        const end = Math.min(start + partSize, size);
+        // Read before the first await so stream parts are requested in order
+        const chunk = await readPart(start, end);
+
+        const etag = await this.trace(
+          "part",
+          { "part.number": partNumber, "media.size": end - start },
+          async (child) => {
+            throwIfAborted(signal);
+            // Requesting the URL is retried by the API client
+            const { url } = await this.getPartSignedUrl(uploadId, partNumber, {
+              signal,
+              timeoutMs,
+              span: child
+            });
+            const response = await this.retry(
+              (attempt) => {
+                inFlight.set(partNumber, 0);
+                return this.put(url, chunk, {
+                  contentLength: end - start,
+                  signal,
+                  timeoutMs,
+                  attempt,
+                  span: child,
+                  onProgress: onProgress
+                    ? ({ loaded }) => {
+                        inFlight.set(partNumber, loaded);
+                        reportProgress();
+                      }
+                    : undefined
+                });
+              },
+              {
+                method: "PUT",
+                signal,
+                url,
+                retryPolicy: {
+                  retries: options.retries,
+                  baseDelayMs: options.retryDelayMs
+                }
+              }
+            );
+
+            if (!response.ok) {
+              throw await createResponseError(
+                response,
+                `Failed to upload part ${partNumber} to R2`
+              );
+            }
+
+            const etag = response.headers.get("ETag");
+            if (!etag) {
+              throw NoCloudAPIError.fromStatus(
+                502,
+                `Missing ETag for part ${partNumber}`
+              );
+            }
+            return etag;
+          },
+          span
+        );
+
+        inFlight.delete(partNumber);
+        completedBytes += end - start;
+        token = {
+          ...token,
+          parts: [...token.parts, { partNumber, etag }].sort(
+            (a, b) => a.partNumber - b.partNumber
+          )
+        };
+        onPartComplete?.(token);
+        reportProgress();
+      }
+    );
+
+    const parts = token.parts;
+    await this.trace(
+      "complete",
+      { "part.count": parts.length },
+      async (child) => {
+        const response = await this.fetch(
+          `storage/multipart/${uploadId}/complete`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify({ parts }),
+            signal,
+            timeoutMs,
+            idempotent: true,
+            span: child
+          }
+        );
+        await resolveJsonResponse<void>(response);
       },
-      body: stream,
-      duplex: "half"
-    } as RequestInit);
-
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse
-        .text()
-        .catch(() => uploadResponse.statusText);
+      span
+    );
+
+    return { id: token.mediaId, url: token.mediaUrl };
+  }
+
+  /**
+   * Aborts a multipart upload and discards its uploaded parts.
+   * @param upload - The resume token or upload ID of the multipart upload.
+   * @returns {Promise<void>} A promise that resolves when the upload is aborted.
+   * @throws {NoCloudAPIError} If the API request fails.
+   */
+  async abortMultipart(upload: MultipartResumeToken | string): Promise<void> {
+    const uploadId = typeof upload === "string" ? upload : upload.uploadId;
+    return this.trace("storage.abortMultipart", {}, (span) =>
+      this.discardMultipart(uploadId, {}, span)
+    );
+  }
+
+  /**
+   * Aborts a multipart upload for `abortMultipart` and failed uploads.
+   */
+  private async discardMultipart(
+    uploadId: string,
+    options: RequestOptions,
+    span: Span
+  ): Promise<void> {
+    const response = await this.fetch(`storage/multipart/${uploadId}`, {
+      method: "DELETE",
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      span
+    });
+    await resolveJsonResponse<void>(response);
+  }
+
+  /**
+   * Uploads a body to a signed URL using the configured transport.
+   */
+  private put(
+    url: string,
+    body: Blob | ArrayBuffer | ReadableStream<Uint8Array>,
+    options: Omit<PutOptions, "fetch"> & { attempt?: number; span?: Span }
+  ): Promise<Response> {
+    const { attempt, span, ...putOptions } = options;
+    return putToSignedUrl(url, body, {
+      ...putOptions,
+      fetch: (input, init) =>
+        this.request(input.toString(), init, {
+          timeoutMs: options.timeoutMs,
+          attempt,
+          span
+        })
+    });
+  }
+
+  /**
+   * Resolves a media ID to its public URL under `mediaBaseUrl`. URLs are returned as-is.
+   */
+  private resolveImageUrl(mediaIdOrUrl: string): string {
+    if (/^https?:\/\//i.test(mediaIdOrUrl)) return mediaIdOrUrl;
+    if (!mediaIdOrUrl) {
+      throw NoCloudAPIError.fromStatus(400, "Media ID is required");
+    }
+    if (!this.mediaBaseUrl) {
       throw NoCloudAPIError.fromStatus(
-        uploadResponse.status,
-        `Failed to upload stream to R2: ${errorText}`
+        400,
+        "Pass the media URL, or set the mediaBaseUrl option to build image URLs from IDs"
       );
     }
+    return `${this.mediaBaseUrl.replace(/\/+$/, "")}/${encodeURIComponent(mediaIdOrUrl)}`;
+  }
 
-    return { id: mediaId, url: mediaUrl };
+  /**
+   * Picks a part size that respects the minimum part size and the maximum part count.
+   */
+  private resolvePartSize(size: number, requested?: number): number {
+    if (requested !== undefined && requested < MIN_PART_SIZE) {
+      throw NoCloudAPIError.fromStatus(
+        400,
+        `Part size must be at least ${MIN_PART_SIZE} bytes`
+      );
+    }
+    return Math.max(
+      requested ?? DEFAULT_PART_SIZE,
+      Math.ceil(size / MAX_PARTS)
+    );
+  }
+
+  /**
+   * Starts a multipart upload.
+   */
+  private async initiateMultipart(
+    contentType: string,
+    size: number,
+    partSize: number,
+    metadata?: FileMetadata,
+    options: RequestOptions & { visibility?: MediaVisibility; span?: Span } = {}
+  ): Promise<MultipartInitResponse> {
+    if (metadata) validateMetadata(metadata);
+    const response = await this.fetch("storage/multipart", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        contentType,
+        size,
+        partSize,
+        metadata,
+        visibility: options.visibility
+      }),
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      span: options.span
+    });
+
+    return resolveJsonResponse<MultipartInitResponse>(response);
+  }
+
+  /**
+   * Generates a signed URL for uploading a single part of a multipart upload.
+   */
+  private async getPartSignedUrl(
+    uploadId: string,
+    partNumber: number,
+    options: RequestOptions & { span?: Span } = {}
+  ): Promise<Pick<SignedUrlResponse, "url" | "expiresAt">> {
+    const response = await this.fetch(
+      `storage/multipart/${uploadId}/parts/${partNumber}/signed-url`,
+      {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        span: options.span
+      }
+    );
+
+    return resolveJsonResponse<Pick<SignedUrlResponse, "url" | "expiresAt">>(
+      response
+    );
+  }
+
+  /**
+   * Creates a time-limited URL for downloading a file, including private files.
+   * @param mediaId - The ID of the media.
+   * @param options - Optional lifetime in seconds, response headers, and cancellation options.
+   * @returns {Promise<SignedDownloadUrlResponse>} An object containing the signed URL and its expiration time.
+   * @throws {NoCloudAPIError} If the lifetime is invalid or the API request fails.
+   */
+  async createSignedDownloadUrl(
+    mediaId: string,
+    options: SignedDownloadUrlOptions = {}
+  ): Promise<SignedDownloadUrlResponse> {
+    return this.trace(
+      "storage.createSignedDownloadUrl",
+      { "media.id": mediaId },
+      async (span) => {
+        const expiresIn = options.expiresIn ?? DEFAULT_DOWNLOAD_URL_TTL;
+        validateExpiresIn(expiresIn);
+
+        const queryParams = new URLSearchParams();
+        queryParams.append("expiresIn", expiresIn.toString());
+        if (options.contentDisposition) {
+          queryParams.append("contentDisposition", options.contentDisposition);
+        }
+        if (options.responseContentType) {
+          queryParams.append(
+            "responseContentType",
+            options.responseContentType
+          );
+        }
+        const response = await this.fetch(
+          `storage/${mediaId}/signed-url?${queryParams.toString()}`,
+          {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs,
+            deadlineMs: options.deadlineMs,
+            span
+          }
+        );
+
+        return resolveJsonResponse<SignedDownloadUrlResponse>(response);
+      }
+    );
+  }
+
+  /**
+   * Builds a URL serving a resized or re-encoded version of a stored image.
+   * The URL is based on the public media URL, so it needs no API key and can be used in `<img src>`.
+   * No request is made; the URL is canonical, so equivalent options produce the same cacheable URL.
+   * @param mediaIdOrUrl - The media URL, such as `UploadResponse.url` or a signed download URL for a private image, or the media ID if `mediaBaseUrl` is set.
+   * @param options - The size, fit, format, quality and pixel ratio of the output.
+   * @returns The transformation URL.
+   * @throws {NoCloudAPIError} If an option is out of range, or an ID is passed without `mediaBaseUrl`.
+   */
+  imageUrl(mediaIdOrUrl: string, options: ImageTransformOptions = {}): string {
+    return buildImageUrl(this.resolveImageUrl(mediaIdOrUrl), options);
+  }
+
+  /**
+   * Builds a `srcset` attribute value for a stored image, for use with `<img srcset>`.
+   * @param mediaIdOrUrl - The media URL, or the media ID if `mediaBaseUrl` is set.
+   * @param options - The transformation options, with either `widths` or `densities`.
+   * @returns Comma-separated transformation URLs with `w` or `x` descriptors.
+   * @throws {NoCloudAPIError} If the options are invalid, or an ID is passed without `mediaBaseUrl`.
+   */
+  imageSrcSet(mediaIdOrUrl: string, options: ImageSrcSetOptions): string {
+    return buildImageSrcSet(this.resolveImageUrl(mediaIdOrUrl), options);
+  }
+
+  /**
+   * Changes who can read a stored file through its URL.
+   * @param mediaId - The ID of the media.
+   * @param visibility - `public` or `private`.
+   * @param options - Optional cancellation and timeout options.
+   * @returns {Promise<MediaInfo>} The file's information after the update.
+   * @throws {NoCloudAPIError} If the API request fails.
+   */
+  async setVisibility(
+    mediaId: string,
+    visibility: MediaVisibility,
+    options: RequestOptions = {}
+  ): Promise<MediaInfo> {
+    return this.trace(
+      "storage.setVisibility",
+      { "media.id": mediaId, visibility },
+      async (span) => {
+        const response = await this.fetch(`storage/${mediaId}/visibility`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ visibility }),
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+          deadlineMs: options.deadlineMs,
+          idempotent: true,
+          span
+        });
+
+        const info = await resolveJsonResponse<MediaInfo>(response);
+        await this.evictDuplicates([mediaId]);
+        return info;
+      }
+    );
+  }
+
+  /**
+   * Reads a stored file.
+   * @param mediaId - The ID of the media to read.
+   * @param options - Optional range, conditional request, and cancellation options.
+   * @returns {Promise<MediaContent>} The file's content and response metadata.
+   * @throws {NoCloudAPIError} If the request fails.
+   */
+  async get(
+    mediaId: string,
+    options: DownloadOptions = {}
+  ): Promise<MediaContent> {
+    return this.trace("storage.get", { "media.id": mediaId }, (span) =>
+      this.readMedia(mediaId, options, span)
+    );
+  }
+
+  /**
+   * Reads a stored file for `get` and the download methods.
+   */
+  private async readMedia(
+    mediaId: string,
+    options: DownloadOptions,
+    span: Span
+  ): Promise<MediaContent> {
+    const headers: Record<string, string> = {};
+    if (options.range) {
+      const { start, end } = options.range;
+      headers["Range"] = `bytes=${start}-${end ?? ""}`;
+    }
+    if (options.ifNoneMatch) {
+      headers["If-None-Match"] = options.ifNoneMatch;
+    }
+
+    const response = await this.fetch(`storage/${mediaId}`, {
+      headers,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      deadlineMs: options.deadlineMs,
+      span
+    });
+    const notModified = response.status === 304;
+    if (!notModified) {
+      await assertOkResponse(response);
+    }
+
+    const contentLength = response.headers.get("Content-Length");
+    span.setAttributes({
+      "media.content_type": response.headers.get("Content-Type") ?? undefined,
+      "media.size": contentLength === null ? undefined : Number(contentLength)
+    });
+    const lastModified = response.headers.get("Last-Modified");
+    const range =
+      response.status === 206
+        ? parseContentRange(response.headers.get("Content-Range"))
+        : null;
+
+    return {
+      id: mediaId,
+      contentType: normalizeMimeType(
+        response.headers.get("Content-Type") || "application/octet-stream"
+      ),
+      size: contentLength === null ? null : Number(contentLength),
+      etag: response.headers.get("ETag"),
+      lastModified: lastModified ? new Date(lastModified) : null,
+      range,
+      notModified,
+      body: notModified ? null : response.body,
+      blob: () => response.blob(),
+      arrayBuffer: () => response.arrayBuffer(),
+      text: () => response.text()
+    };
+  }
+
+  /**
+   * Downloads a stored file.
+   * @param mediaId - The ID of the media to download.
+   * @param options - Optional output format (defaults to `"blob"`), range, conditional request, and cancellation options.
+   * @returns The file's content in the requested format.
+   * @throws {NoCloudAPIError} If the request fails, or with `NOT_MODIFIED` if `ifNoneMatch` matched.
+   */
+  async download(
+    mediaId: string,
+    options?: DownloadOptions & { as?: "blob" }
+  ): Promise<Blob>;
+  async download(
+    mediaId: string,
+    options: DownloadOptions & { as: "arrayBuffer" }
+  ): Promise<ArrayBuffer>;
+  async download(
+    mediaId: string,
+    options: DownloadOptions & { as: "stream" }
+  ): Promise<ReadableStream<Uint8Array>>;
+  async download(
+    mediaId: string,
+    options: DownloadOptions & { as: "text" }
+  ): Promise<string>;
+  async download(
+    mediaId: string,
+    options: DownloadOptions & { as?: DownloadFormat } = {}
+  ): Promise<Blob | ArrayBuffer | ReadableStream<Uint8Array> | string> {
+    return this.trace(
+      "storage.download",
+      { "media.id": mediaId, format: options.as ?? "blob" },
+      async (span) => {
+        const media = await this.readMedia(mediaId, options, span);
+        if (media.notModified) {
+          throw NoCloudAPIError.fromStatus(304, "Media has not been modified");
+        }
+
+        switch (options.as ?? "blob") {
+          case "arrayBuffer":
+            return media.arrayBuffer();
+          case "stream":
+            return media.body ?? new Blob([]).stream();
+          case "text":
+            return media.text();
+          default:
+            return media.blob();
+        }
+      }
+    );
+  }
+
+  /**
+   * Downloads and decrypts a file uploaded with `encryption`.
+   * Every chunk is authenticated, so modified, reordered or truncated content is rejected
+   * with `NoCloudError.DECRYPTION_FAILED`. With `as: "stream"`, the stream errors instead,
+   * and bytes read before the error have already been verified.
+   * @param mediaId - The ID of the media.
+   * @param options - The key provider, result format and cancellation options.
+   * @returns The decrypted content, as a Blob with the original MIME type by default.
+   * @throws {NoCloudAPIError} If the file is not encrypted, the data key cannot be unwrapped, decryption fails, or the API request fails.
+   */
+  async downloadDecrypted(
+    mediaId: string,
+    options: DecryptedDownloadOptions & { as?: "blob" }
+  ): Promise<Blob>;
+  async downloadDecrypted(
+    mediaId: string,
+    options: DecryptedDownloadOptions & { as: "arrayBuffer" }
+  ): Promise<ArrayBuffer>;
+  async downloadDecrypted(
+    mediaId: string,
+    options: DecryptedDownloadOptions & { as: "stream" }
+  ): Promise<ReadableStream<Uint8Array>>;
+  async downloadDecrypted(
+    mediaId: string,
+    options: DecryptedDownloadOptions & { as: "text" }
+  ): Promise<string>;
+  async downloadDecrypted(
+    mediaId: string,
+    options: DecryptedDownloadOptions & { as?: DownloadFormat }
+  ): Promise<Blob | ArrayBuffer | ReadableStream<Uint8Array> | string> {
+    return this.trace(
+      "storage.downloadDecrypted",
+      { "media.id": mediaId, format: options.as ?? "blob" },
+      async (span) => {
+        // The deadline covers both the metadata and the content request
+        const { info, content } = await this.withDeadline(
+          options,
+          async (signal) => {
+            const requestOptions = { signal, timeoutMs: options.timeoutMs };
+            const { metadata } = await this.readMetadata(
+              mediaId,
+              requestOptions,
+              span
+            );
+            const info = readEncryptionInfo(metadata);
+            if (!info) {
+              throw NoCloudAPIError.fromStatus(400, "Media is not encrypted");
+            }
+            return {
+              info,
+              content: await this.readMedia(mediaId, requestOptions, span)
+            };
+          }
+        );
+        const stream = await decryptStream(
+          content.body ?? new Blob([]).stream(),
+          info,
+          options.keyProvider
+        );
+
+        switch (options.as ?? "blob") {
+          case "stream":
+            return stream;
+          case "arrayBuffer":
+            return readAll(stream);
+          case "text":
+            return new TextDecoder().decode(await readAll(stream));
+          default:
+            return new Blob([await readAll(stream)], {
+              type: info.contentType
+            });
+        }
+      }
+    );
+  }
+
+  /**
+   * Gets information about a stored file, including its metadata.
+   * @param mediaId - The ID of the media.
+   * @param options - Optional cancellation and timeout options.
+   * @returns {Promise<MediaInfo>} The file's information.
+   * @throws {NoCloudAPIError} If the API request fails.
+   */
+  async getMetadata(
+    mediaId: string,
+    options: RequestOptions = {}
+  ): Promise<MediaInfo> {
+    return this.trace("storage.getMetadata", { "media.id": mediaId }, (span) =>
+      this.readMetadata(mediaId, options, span)
+    );
+  }
+
+  /**
+   * Reads the information of a stored file for `getMetadata` and `downloadDecrypted`.
+   */
+  private async readMetadata(
+    mediaId: string,
+    options: RequestOptions,
+    span: Span
+  ): Promise<MediaInfo> {
+    const response = await this.fetch(`storage/${mediaId}/metadata`, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      deadlineMs: options.deadlineMs,
+      span
+    });
+
+    return resolveJsonResponse<MediaInfo>(response);
+  }
+
+  /**
+   * Updates the metadata of a stored file.
+   * @param mediaId - The ID of the media.
+   * @param patch - The metadata changes. In `merge` mode, `null` values remove keys.
+   * @param options - Optional update mode (defaults to `"merge"`) and cancellation signal.
+   * @returns {Promise<MediaInfo>} The file's information after the update.
+   * @throws {NoCloudAPIError} If the metadata is invalid or the API request fails.
+   */
+  async updateMetadata(
+    mediaId: string,
+    patch: MetadataPatch,
+    options: UpdateMetadataOptions = {}
+  ): Promise<MediaInfo> {
+    return this.trace(
+      "storage.updateMetadata",
+      { "media.id": mediaId, mode: options.mode ?? "merge" },
+      async (span) => {
+        const mode = options.mode ?? "merge";
+        validateMetadata(patch, mode === "merge");
+
+        const response = await this.fetch(`storage/${mediaId}/metadata`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ mode, metadata: patch }),
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+          deadlineMs: options.deadlineMs,
+          idempotent: true,
+          span
+        });
+
+        return resolveJsonResponse<MediaInfo>(response);
+      }
+    );
+  }
+
+  /**
+   * Lists stored files, one page at a time.
+   * @param options - Optional page size, cursor, and filters.
+   * @returns {Promise<MediaListPage>} A page of files and the cursor for the next page.
+   * @throws {NoCloudAPIError} If the API request fails.
+   */
+  async list(options: ListOptions = {}): Promise<MediaListPage> {
+    return this.trace(
+      "storage.list",
+      { limit: options.limit },
+      async (span) => {
+        const queryParams = new URLSearchParams();
+        if (options.limit !== undefined) {
+          queryParams.append("limit", options.limit.toString());
+        }
+        if (options.cursor) queryParams.append("cursor", options.cursor);
+        if (options.contentType) {
+          queryParams.append("contentType", options.contentType);
+        }
+        if (options.metadata) {
+          queryParams.append("metadata", JSON.stringify(options.metadata));
+        }
+        if (options.createdAfter) {
+          queryParams.append(
+            "createdAfter",
+            toISODate(options.createdAfter, "createdAfter")
+          );
+        }
+        if (options.createdBefore) {
+          queryParams.append(
+            "createdBefore",
+            toISODate(options.createdBefore, "createdBefore")
+          );
+        }
+
+        const query = queryParams.toString();
+        const response = await this.fetch(
+          query ? `storage?${query}` : "storage",
+          {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs,
+            deadlineMs: options.deadlineMs,
+            span
+          }
+        );
+        const page = await resolveJsonResponse<MediaListPage>(response);
+        span.setAttributes({ count: page.items.length });
+        return page;
+      }
+    );
+  }
+
+  /**
+   * Iterates over all stored files matching the filters, following page cursors automatically.
+   * @param options - Optional page size and filters.
+   * @returns An async iterable of files.
+   * @throws {NoCloudAPIError} If an API request fails.
+   * @example
+   * ```ts
+   * for await (const media of cloud.storage.listAll({ contentType: "image/*" })) {
+   *   console.log(media.id);
+   * }
+   * ```
+   */
+  async *listAll(
+    options: Omit<ListOptions, "cursor"> = {}
+  ): AsyncGenerator<MediaInfo, void, undefined> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.list({ ...options, cursor });
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
   }
 
   /**
    * Deletes a media file from the storage.
-   * @param mediaId - The ID of the media to delete, or an array of IDs for batch deletion (max 100 per batch).
+   * @param mediaId - The ID of the media to delete.
+   * @param options - Optional cancellation and timeout options.
    * @returns {Promise<void>} A promise that resolves when the deletion is complete.
    * @throws {NoCloudAPIError} If the deletion fails.
    */
-  async delete(mediaId: string | string[]): Promise<void> {
+  async delete(mediaId: string, options?: RequestOptions): Promise<void>;
+  /**
+   * Deletes media files from the storage in batches of 100.
+   * Every batch is attempted; failures are reported per ID instead of rejecting.
+   * `deadlineMs` covers all batches; batches not sent in time fail with `NoCloudError.TIMEOUT`.
+   * @param mediaIds - The IDs of the media to delete.
+   * @param options - Optional cancellation and timeout options.
+   * @returns {Promise<BatchResult<string>[]>} One result per ID, in input order.
+   */
+  async delete(
+    mediaIds: string[],
+    options?: RequestOptions
+  ): Promise<BatchResult<string>[]>;
+  async delete(
+    mediaId: string | string[],
+    options: RequestOptions = {}
+  ): Promise<void | BatchResult<string>[]> {
     // Handle single ID deletion - direct API call
     if (!Array.isArray(mediaId)) {
-      const response = await this.fetch(`storage/${mediaId}`, {
-        method: "DELETE"
-      });
-      await resolveJsonResponse<void>(response);
-      return;
+      return this.trace("storage.delete", { "media.id": mediaId }, (span) =>
+        this.deleteOne(mediaId, options, span)
+      );
     }
 
-    if (mediaId.length === 0) {
-      return;
-    }
+    return this.trace("storage.delete", { count: mediaId.length }, (span) =>
+      this.withDeadline(options, (signal) =>
+        this.deleteMany(mediaId, { signal, timeoutMs: options.timeoutMs }, span)
+      )
+    );
+  }
 
-    if (mediaId.length === 1) {
-      return this.delete(mediaId[0]!);
+  private async deleteOne(
+    mediaId: string,
+    options: RequestOptions,
+    span: Span
+  ): Promise<void> {
+    const response = await this.fetch(`storage/${mediaId}`, {
+      method: "DELETE",
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      deadlineMs: options.deadlineMs,
+      span
+    });
+    await resolveJsonResponse<void>(response);
+    await this.evictDuplicates([mediaId]);
+  }
+
+  /**
+   * Deletes media files in batches of 100, with a child span per batch.
+   */
+  private async deleteMany(
+    mediaIds: string[],
+    options: RequestOptions,
+    span: Span
+  ): Promise<BatchResult<string>[]> {
+    if (mediaIds.length === 1) {
+      try {
+        await this.deleteOne(mediaIds[0]!, options, span);
+        return [{ ok: true, index: 0, value: mediaIds[0]! }];
+      } catch (error) {
+        return [
+          { ok: false, index: 0, error: NoCloudAPIError.fromError(error) }
+        ];
+      }
     }
 
     const BATCH_SIZE = 100;
-    const totalBatches = Math.ceil(mediaId.length / BATCH_SIZE);
+    const totalBatches = Math.ceil(mediaIds.length / BATCH_SIZE);
+    const results: BatchResult<string>[] = [];
 
     for (let i = 0; i < totalBatches; i++) {
       const start = i * BATCH_SIZE;
-      const end = Math.min(start + BATCH_SIZE, mediaId.length);
-      const batch = mediaId.slice(start, end);
-      const response = await this.fetch("storage/bulk", {
-        method: "DELETE",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({ ids: batch })
+      const end = Math.min(start + BATCH_SIZE, mediaIds.length);
+      const batch = mediaIds.slice(start, end);
+
+      let error: NoCloudAPIError | undefined;
+      try {
+        await this.trace(
+          "batch",
+          { "batch.index": i, "batch.size": batch.length },
+          async (child) => {
+            const response = await this.fetch("storage/bulk", {
+              method: "DELETE",
+              headers: {
+                "Content-Type": "application/json"
+              },
+              body: JSON.stringify({ ids: batch }),
+              signal: options.signal,
+              timeoutMs: options.timeoutMs,
+              span: child
+            });
+            await resolveJsonResponse<void>(response);
+          },
+          span
+        );
+        await this.evictDuplicates(batch);
+      } catch (e) {
+        error = NoCloudAPIError.fromError(e);
+      }
+
+      batch.forEach((id, offset) => {
+        const index = start + offset;
+        results.push(
+          error ? { ok: false, index, error } : { ok: true, index, value: id }
+        );
       });
+    }
+
+    const failed = results.filter((result) => !result.ok).length;
+    span.setAttributes({ failed });
+    return results;
+  }
 
-      await resolveJsonResponse<void>(response);
+  /**
+   * Returns the existing file with the given content and visibility, from the
+   * dedupe cache or the API, or null if there is none.
+   */
+  private async findDuplicate(
+    sha256: string,
+    size: number,
+    visibility: MediaVisibility = "public",
+    options: RequestOptions,
+    span: Span
+  ): Promise<UploadResponse | null> {
+    const cached = await this.dedupeCache?.get(
+      getDedupeKey(sha256, visibility)
+    );
+    if (cached) {
+      span.setAttributes({ deduplicated: true, "media.id": cached.id });
+      return { ...cached, deduplicated: true };
+    }
+
+    const queryParams = new URLSearchParams({
+      sha256,
+      size: size.toString(),
+      visibility
+    });
+    const existing = await this.trace(
+      "lookup",
+      {},
+      async (child) => {
+        const response = await this.fetch(
+          `storage/lookup?${queryParams.toString()}`,
+          {
+            signal: options.signal,
+            timeoutMs: options.timeoutMs,
+            deadlineMs: options.deadlineMs,
+            span: child
+          }
+        );
+        if (response.status === 404) return null;
+        return resolveJsonResponse<UploadResponse>(response);
+      },
+      span
+    );
+    if (!existing) return null;
+
+    const { id, url } = existing;
+    span.setAttributes({ deduplicated: true, "media.id": id });
+    await this.cacheDuplicate(sha256, visibility, { id, url });
+    return { id, url, deduplicated: true };
+  }
+
+  /**
+   * Caches a deduplicated file, if a dedupe cache is configured.
+   */
+  private async cacheDuplicate(
+    sha256: string,
+    visibility: MediaVisibility = "public",
+    response: UploadResponse
+  ): Promise<void> {
+    if (!this.dedupeCache) return;
+    const key = getDedupeKey(sha256, visibility);
+    this.dedupeKeys.set(response.id, key);
+    await this.dedupeCache.set(key, response);
+  }
+
+  /**
+   * Removes files cached by this instance from the dedupe cache.
+   */
+  private async evictDuplicates(mediaIds: string[]): Promise<void> {
+    for (const mediaId of mediaIds) {
+      const key = this.dedupeKeys.get(mediaId);
+      if (key === undefined) continue;
+      this.dedupeKeys.delete(mediaId);
+      await this.dedupeCache?.delete(key);
     }
   }
 }
+
+/**
+ * Checks whether an upload body is a web stream or an async iterable.
+ */
+function isStreamBody(body: FileBody): body is StreamSource {
+  return (
+    (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) ||
+    isAsyncIterable(body)
+  );
+}
+
+/**
+ * Throws if `dedupe` is combined with `encryption`, whose output differs on every upload.
+ */
+function assertDedupeSupported(
+  options: Pick<UploadOptions, "dedupe" | "encryption">
+): void {
+  if (options.dedupe && options.encryption) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      "dedupe cannot be combined with encryption"
+    );
+  }
+}
+
+/**
+ * Returns the checksum algorithms to compute for an upload. `dedupe` needs SHA-256.
+ */
+function getChecksumAlgorithms(
+  options: Pick<UploadOptions, "checksum" | "dedupe">
+): ChecksumAlgorithm[] {
+  const algorithms = [options.checksum ?? []].flat();
+  if (options.dedupe && !algorithms.includes("sha256")) {
+    algorithms.push("sha256");
+  }
+  return algorithms;
+}
+
+function getDedupeKey(sha256: string, visibility: MediaVisibility): string {
+  return `${visibility}:${sha256}`;
+}
+
+/**
+ * Throws if a signed URL lifetime is not a whole number of seconds within the allowed range.
+ */
+function validateExpiresIn(expiresIn: number): void {
+  if (
+    !Number.isInteger(expiresIn) ||
+    expiresIn <= 0 ||
+    expiresIn > MAX_SIGNED_URL_TTL
+  ) {
+    throw NoCloudAPIError.fromStatus(
+      400,
+      `expiresIn must be a whole number of seconds between 1 and ${MAX_SIGNED_URL_TTL}`
+    );
+  }
+}
+
+/**
+ * Formats a date filter as an ISO 8601 string. Throws BAD_REQUEST if it is not a valid date.
+ */
+function toISODate(value: Date | string, name: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw NoCloudAPIError.fromStatus(400, `${name} must be a valid date`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Throws SIGNED_URL_EXPIRED if a signed URL has expired, or will within `skewMs`.
+ */
+function assertNotExpired(signed: SignedUrlResponse, skewMs: number): void {
+  if (isSignedUrlExpired(signed, skewMs)) {
+    throw NoCloudAPIError.fromCode(
+      NoCloudError.SIGNED_URL_EXPIRED,
+      `Signed URL expired at ${signed.expiresAt}`
+    );
+  }
+}
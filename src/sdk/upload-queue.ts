@@ -0,0 +1,369 @@
+import { NoCloudAPIError } from "@/lib/errors";
+import { MemoryQueueAdapter } from "@/lib/queue-adapters";
+import {
+  isAsyncIterable,
+  readAll,
+  viewToArrayBuffer,
+  type StreamSource
+} from "@/lib/streams";
+import type {
+  FileBody,
+  FileMetadata,
+  QueueStorageAdapter,
+  QueuedUpload,
+  QueuedUploadOptions,
+  UploadQueueEvents,
+  UploadQueueOptions
+} from "@/types";
+import type { Storage } from "./storage";
+
+type Listener<E extends keyof UploadQueueEvents> = (
+  event: UploadQueueEvents[E]
+) => void;
+
+/**
+ * Queue of uploads that are persisted until they succeed.
+ * Uploads are drained with bounded concurrency; retryable failures, such as network errors
+ * while offline, are retried with backoff and as soon as the browser is back online.
+ * Persisted uploads are resumed when a queue is started with the same adapter.
+ * @example
+ * ```ts
+ * const cloud = new NoCloud({
+ *   apiKey: "your-api-key",
+ *   uploadQueue: { adapter: new IndexedDBQueueAdapter() }
+ * });
+ *
+ * cloud.storage.queue.on("succeeded", ({ upload, response }) => {
+ *   console.log(upload.id, "uploaded as", response.id);
+ * });
+ * await cloud.storage.queue.enqueue(file, { userId: "123" });
+ * ```
+ */
+export class UploadQueue {
+  private readonly adapter: QueueStorageAdapter;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly uploads = new Map<string, QueuedUpload>();
+  private readonly active = new Map<string, AbortController>();
+  private readonly retryAt = new Map<string, number>();
+  private readonly listeners = new Map<
+    keyof UploadQueueEvents,
+    Set<Listener<never>>
+  >();
+  private idleWaiters: (() => void)[] = [];
+  private loading?: Promise<void>;
+  private running = false;
+  private wakeTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param storage - The storage module used to upload.
+   * @param options - Optional adapter, concurrency and retry options.
+   */
+  constructor(
+    private readonly storage: Storage,
+    options: UploadQueueOptions = {}
+  ) {
+    this.adapter = options.adapter ?? new MemoryQueueAdapter();
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.maxAttempts = options.maxAttempts ?? Infinity;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60_000;
+
+    if (options.autoStart ?? true) {
+      this.start().catch(() => {});
+    }
+  }
+
+  /**
+   * Loads persisted uploads, on the first call, and starts draining the queue.
+   * @returns {Promise<void>} Resolves once persisted uploads are loaded.
+   * @throws {Error} If the adapter fails to load.
+   */
+  async start(): Promise<void> {
+    this.loading ??= this.adapter.load().then(
+      (uploads) => {
+        for (const upload of uploads) {
+          if (!this.uploads.has(upload.id)) this.uploads.set(upload.id, upload);
+        }
+      },
+      (error) => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    await this.loading;
+
+    if (!this.running) {
+      this.running = true;
+      if (typeof addEventListener === "function") {
+        addEventListener("online", this.handleOnline);
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Stops starting uploads and cancels those in progress. Cancelled uploads stay queued
+   * and are resumed by `start`.
+   */
+  pause(): void {
+    this.running = false;
+    if (typeof removeEventListener === "function") {
+      removeEventListener("online", this.handleOnline);
+    }
+    clearTimeout(this.wakeTimer);
+    for (const controller of this.active.values()) {
+      controller.abort();
+    }
+    this.resolveIdle();
+  }
+
+  /**
+   * Adds an upload to the queue and persists it. It starts once the queue is running.
+   * Views are copied and streams are read into memory, so they can be persisted.
+   * @param body The file body to upload.
+   * @param metadata Optional metadata associated with the file.
+   * @param options Optional upload options that can be persisted.
+   * @returns {Promise<QueuedUpload>} The queued upload.
+   * @throws {Error} If the adapter fails to save.
+   */
+  async enqueue(
+    body: FileBody,
+    metadata?: FileMetadata,
+    options: QueuedUploadOptions = {}
+  ): Promise<QueuedUpload> {
+    const upload: QueuedUpload = {
+      id: createId(),
+      body: await toPersistableBody(body),
+      metadata,
+      options,
+      status: "pending",
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.adapter.save(upload);
+    this.uploads.set(upload.id, upload);
+    this.emit("queued", { upload });
+    this.pump();
+    return upload;
+  }
+
+  /**
+   * Returns the queued uploads, oldest first.
+   * @returns {QueuedUpload[]} Pending and failed uploads.
+   */
+  list(): QueuedUpload[] {
+    return [...this.uploads.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  /**
+   * Queues failed uploads again and retries waiting uploads immediately.
+   * @param id - The ID of the upload to retry. Every failed or waiting upload is retried if omitted.
+   * @returns {Promise<void>} Resolves once the uploads are persisted.
+   */
+  async retry(id?: string): Promise<void> {
+    for (const upload of this.uploads.values()) {
+      if (id !== undefined && upload.id !== id) continue;
+      this.retryAt.delete(upload.id);
+      if (upload.status === "failed") {
+        upload.status = "pending";
+        upload.attempts = 0;
+        upload.error = undefined;
+        await this.adapter.save(upload);
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Removes an upload from the queue, cancelling it if it is in progress.
+   * @param id - The ID of the upload to remove.
+   * @returns {Promise<void>} Resolves once the upload is removed from the adapter.
+   */
+  async remove(id: string): Promise<void> {
+    this.uploads.delete(id);
+    this.retryAt.delete(id);
+    this.active.get(id)?.abort();
+    await this.adapter.remove(id);
+    this.pump();
+  }
+
+  /**
+   * Resolves once no upload is in progress or ready to start. Uploads waiting
+   * to be retried, failed uploads and a paused queue count as idle.
+   * @returns {Promise<void>}
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Subscribes to a queue event.
+   * @param event - The event name.
+   * @param listener - Called with the event payload.
+   * @returns A function that removes the listener.
+   */
+  on<E extends keyof UploadQueueEvents>(
+    event: E,
+    listener: Listener<E>
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as Listener<never>);
+    return () => listeners.delete(listener as Listener<never>);
+  }
+
+  private emit<E extends keyof UploadQueueEvents>(
+    event: E,
+    payload: UploadQueueEvents[E]
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        (listener as Listener<E>)(payload);
+      } catch {
+        // A failing listener must not stop the queue
+      }
+    }
+  }
+
+  private readonly handleOnline = (): void => {
+    this.retryAt.clear();
+    this.pump();
+  };
+
+  /**
+   * Starts ready uploads up to the concurrency limit and schedules the next retry.
+   */
+  private pump(): void {
+    if (!this.running) return;
+
+    const now = Date.now();
+    let nextRetry = Infinity;
+    for (const upload of this.list()) {
+      if (this.active.size >= this.concurrency) break;
+      if (upload.status !== "pending" || this.active.has(upload.id)) continue;
+      const retryAt = this.retryAt.get(upload.id) ?? 0;
+      if (retryAt > now) {
+        nextRetry = Math.min(nextRetry, retryAt);
+        continue;
+      }
+      void this.run(upload);
+    }
+
+    clearTimeout(this.wakeTimer);
+    if (nextRetry !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextRetry - now);
+      // Waiting retries must not keep a Node.js process alive
+      (this.wakeTimer as { unref?: () => void }).unref?.();
+    }
+    if (this.isIdle()) this.resolveIdle();
+  }
+
+  private async run(upload: QueuedUpload): Promise<void> {
+    const controller = new AbortController();
+    this.active.set(upload.id, controller);
+    this.retryAt.delete(upload.id);
+
+    try {
+      upload.attempts++;
+      await this.adapter.save(upload);
+      this.emit("started", { upload });
+
+      const response = await this.storage.upload(upload.body, upload.metadata, {
+        ...upload.options,
+        signal: controller.signal,
+        onProgress: (progress) => this.emit("progress", { upload, progress })
+      });
+
+      this.uploads.delete(upload.id);
+      await this.adapter.remove(upload.id);
+      this.emit("succeeded", { upload, response });
+    } catch (error) {
+      // Paused or removed: the upload stays as it is
+      if (!controller.signal.aborted) {
+        await this.handleFailure(
+          upload,
+          NoCloudAPIError.fromError(error)
+        ).catch(() => {});
+      }
+    } finally {
+      this.active.delete(upload.id);
+      this.pump();
+    }
+  }
+
+  private async handleFailure(
+    upload: QueuedUpload,
+    error: NoCloudAPIError
+  ): Promise<void> {
+    const willRetry = error.retryable && upload.attempts < this.maxAttempts;
+    upload.error = { code: error.code, message: error.message };
+    if (willRetry) {
+      const delayMs = Math.min(
+        this.maxRetryDelayMs,
+        this.retryDelayMs * 2 ** (upload.attempts - 1)
+      );
+      this.retryAt.set(upload.id, Date.now() + delayMs);
+    } else {
+      upload.status = "failed";
+    }
+
+    if (this.uploads.has(upload.id)) await this.adapter.save(upload);
+    this.emit("failed", { upload, error, willRetry });
+  }
+
+  private isIdle(): boolean {
+    if (!this.running) return true;
+    if (this.active.size > 0) return false;
+    const now = Date.now();
+    for (const upload of this.uploads.values()) {
+      if (
+        upload.status === "pending" &&
+        (this.retryAt.get(upload.id) ?? 0) <= now
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private resolveIdle(): void {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+/**
+ * Converts a body to a form adapters can persist.
+ */
+async function toPersistableBody(
+  body: FileBody
+): Promise<QueuedUpload["body"]> {
+  if (
+    (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) ||
+    isAsyncIterable(body)
+  ) {
+    return readAll(body as StreamSource);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return viewToArrayBuffer(body).slice(0);
+  }
+  return body as QueuedUpload["body"];
+}
+
+function createId(): string {
+  return (
+    globalThis.crypto?.randomUUID?.() ??
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+  );
+}
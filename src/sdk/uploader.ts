@@ -0,0 +1,81 @@
+import { Fetcher } from "@/lib";
+import type {
+  FileBody,
+  SignedUploadOptions,
+  SignedUrlResponse,
+  UploadResponse
+} from "@/types";
+import type { NoCloudOptions } from "./index";
+import { Storage } from "./storage";
+
+/**
+ * Options for the key-less uploader.
+ */
+export type NoCloudUploaderOptions = Omit<
+  NoCloudOptions,
+  "apiKey" | "baseUrl" | "basePath" | "uploadQueue" | "dedupeCache"
+>;
+
+/**
+ * Client for uploading to signed URLs created by your backend, without an API key.
+ * Use it in browsers and other untrusted environments.
+ * @example
+ * ```ts
+ * // On the server
+ * const signed = await cloud.storage.createSignedUploadUrl({
+ *   contentType: "image/*",
+ *   maxSize: 10 * 1024 * 1024,
+ *   metadata: { userId: "123" }
+ * });
+ *
+ * // In the browser
+ * const uploader = new NoCloudUploader();
+ * const { id, url } = await uploader.upload(signed, file, {
+ *   onProgress: ({ percent }) => console.log(`${percent}%`)
+ * });
+ * ```
+ */
+export class NoCloudUploader {
+  private readonly storage: Storage;
+
+  /**
+   * Creates a key-less uploader.
+   * @param options - Optional transport, retry, timeout, upload policy, logging and tracing options.
+   */
+  constructor(options: NoCloudUploaderOptions = {}) {
+    const fetcher = new Fetcher({
+      retries: options.retries,
+      retryDelayMs: options.retryDelayMs,
+      retryPolicy: options.retryPolicy,
+      fetch: options.fetch,
+      interceptors: options.interceptors,
+      timeoutMs: options.timeoutMs,
+      deadlineMs: options.deadlineMs,
+      logger: options.logger,
+      logLevel: options.logLevel,
+      tracer: options.tracer
+    });
+    this.storage = new Storage(fetcher, {
+      uploadPolicy: options.uploadPolicy,
+      mediaBaseUrl: options.mediaBaseUrl
+    });
+  }
+
+  /**
+   * Uploads a file to a signed URL.
+   * The body is checked against the URL's constraints and expiration time before it is sent,
+   * and failed attempts are retried while the URL is valid.
+   * @param signed The signed URL response created by your backend.
+   * @param body The file body to upload.
+   * @param options Optional upload options for progress reporting and cancellation.
+   * @returns {Promise<UploadResponse>} An object containing the upload ID and URL.
+   * @throws {NoCloudAPIError} If the URL has expired, the body violates its constraints, or the upload fails or is aborted.
+   */
+  upload(
+    signed: SignedUrlResponse,
+    body: FileBody,
+    options?: SignedUploadOptions
+  ): Promise<UploadResponse> {
+    return this.storage.uploadToSignedUrl(signed, body, options);
+  }
+}
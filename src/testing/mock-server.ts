@@ -0,0 +1,1082 @@
+import { computeChecksums, readChecksumHeaders } from "@/lib/checksum";
+import { DEFAULT_BASE_PATH } from "@/lib/constants";
+import { NoCloudError } from "@/lib/errors";
+import { validateImageTransform } from "@/lib/image";
+import { matchesMimeType } from "@/lib/policy";
+import { delay } from "@/lib/utils";
+import type {
+  ChecksumAlgorithm,
+  FetchFunction,
+  FileMetadata,
+  ImageFit,
+  ImageFormat,
+  MediaInfo,
+  MediaVisibility,
+  MetadataPatch,
+  SignedUploadConstraints,
+  UploadChecksums
+} from "@/types";
+
+export interface MockNoCloudServerOptions {
+  /**
+   * API key accepted by the server. Any non-empty key is accepted if omitted.
+   */
+  apiKey?: string;
+  /**
+   * Base path of the API endpoints.
+   * @default "/cloud"
+   */
+  basePath?: string;
+  /**
+   * Origin used for signed upload URLs and public media URLs.
+   * @default "https://storage.nocloud.test"
+   */
+  storageUrl?: string;
+  /**
+   * Lifetime of signed URLs in milliseconds.
+   * @default 900000 (15 minutes)
+   */
+  signedUrlTtlMs?: number;
+}
+
+/**
+ * A fault injected into the mock server.
+ * A fault applies to requests matching `method` and `path`, and is consumed after `times` matches.
+ */
+export interface MockFault {
+  /**
+   * HTTP method to match. Matches any method if omitted.
+   */
+  method?: string;
+  /**
+   * Substring or pattern matched against the request path. Matches any path if omitted.
+   */
+  path?: string | RegExp;
+  /**
+   * Number of matching requests the fault applies to.
+   * @default 1
+   */
+  times?: number;
+  /**
+   * Delays the request by this many milliseconds before handling it.
+   */
+  delayMs?: number;
+  /**
+   * Rejects the request as if the connection was dropped.
+   */
+  dropConnection?: boolean;
+  /**
+   * Responds with this status instead of handling the request.
+   */
+  status?: number;
+  /**
+   * JSON body sent with `status`.
+   */
+  body?: unknown;
+  /**
+   * Headers sent with `status`.
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A file stored by the mock server.
+ */
+export interface MockMediaRecord extends MediaInfo {
+  /**
+   * The stored bytes, or null until the file has been uploaded.
+   */
+  data: Uint8Array | null;
+  /**
+   * The ETag of the stored bytes.
+   */
+  etag: string;
+}
+
+/**
+ * A request received by the mock server.
+ */
+export interface MockRequestLog {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+}
+
+interface MultipartRecord {
+  mediaId: string;
+  parts: Map<number, Uint8Array>;
+}
+
+interface SignedUpload {
+  expiresAt: number;
+  checksums: UploadChecksums;
+  constraints?: SignedUploadConstraints;
+}
+
+interface DownloadToken {
+  mediaId: string;
+  expiresAt: number;
+  contentDisposition: string | null;
+  responseContentType: string | null;
+}
+
+type RouteParams = string[];
+type RouteHandler = (
+  request: Request,
+  url: URL,
+  params: RouteParams
+) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const DEFAULT_STORAGE_URL = "https://storage.nocloud.test";
+const IMAGE_TRANSFORM_PARAMS = ["dpr", "fit", "format", "h", "q", "w"];
+
+/**
+ * In-memory fake of the NoCloud API, used to test code that depends on the SDK without network access.
+ * Pass its `fetch` to the `NoCloud` constructor; every request, including uploads to signed URLs, is served from memory.
+ * @example
+ * ```ts
+ * import { NoCloud } from "@nocloud/sdk";
+ * import { MockNoCloudServer } from "@nocloud/sdk/testing";
+ *
+ * const server = new MockNoCloudServer();
+ * const cloud = new NoCloud({ apiKey: "test-key", fetch: server.fetch });
+ *
+ * server.injectFault({ path: "signed-url", status: 429 });
+ * ```
+ */
+export class MockNoCloudServer {
+  /**
+   * Stored files, keyed by media ID.
+   */
+  readonly media = new Map<string, MockMediaRecord>();
+  /**
+   * Requests received by the server, in order.
+   */
+  readonly requests: MockRequestLog[] = [];
+
+  private readonly apiKey?: string;
+  private readonly basePath: string;
+  private readonly storageUrl: string;
+  private readonly signedUrlTtlMs: number;
+  private readonly multipart = new Map<string, MultipartRecord>();
+  private readonly signedUploads = new Map<string, SignedUpload>();
+  private readonly downloadTokens = new Map<string, DownloadToken>();
+  /**
+   * Media IDs by visibility and SHA-256 digest, for uploads that bound a SHA-256 checksum.
+   */
+  private readonly contentHashes = new Map<string, string>();
+  private readonly apiRoutes: Route[];
+  private readonly storageRoutes: Route[];
+  private faults: (MockFault & { remaining: number })[] = [];
+  private sequence = 0;
+
+  constructor(options: MockNoCloudServerOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.basePath = (options.basePath ?? DEFAULT_BASE_PATH).replace(
+      /^\/+|\/+$/g,
+      ""
+    );
+    this.storageUrl = (options.storageUrl ?? DEFAULT_STORAGE_URL).replace(
+      /\/+$/,
+      ""
+    );
+    this.signedUrlTtlMs = options.signedUrlTtlMs ?? 15 * 60 * 1000;
+    this.apiRoutes = this.createApiRoutes();
+    this.storageRoutes = this.createStorageRoutes();
+  }
+
+  /**
+   * `fetch`-compatible handler serving requests from memory.
+   */
+  readonly fetch: FetchFunction = async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const signal = init?.signal ?? undefined;
+
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    this.requests.push({ method: request.method, url: request.url, headers });
+
+    const fault = this.takeFault(request.method, url.pathname);
+    if (fault?.delayMs) {
+      await delay(fault.delayMs, signal);
+    }
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    if (fault?.dropConnection) {
+      throw new TypeError("Mock connection dropped");
+    }
+    if (fault?.status !== undefined) {
+      return Response.json(fault.body ?? { message: "Injected fault" }, {
+        status: fault.status,
+        headers: fault.headers
+      });
+    }
+
+    return this.handle(request, url);
+  };
+
+  /**
+   * Injects a fault for matching requests.
+   * @param fault - The fault to inject.
+   */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Removes all injected faults.
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Removes all stored files, pending uploads, faults and logged requests.
+   */
+  reset(): void {
+    this.media.clear();
+    this.multipart.clear();
+    this.signedUploads.clear();
+    this.downloadTokens.clear();
+    this.contentHashes.clear();
+    this.requests.length = 0;
+    this.clearFaults();
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const index = this.faults.findIndex(
+      (fault) =>
+        (!fault.method ||
+          fault.method.toUpperCase() === method.toUpperCase()) &&
+        (!fault.path ||
+          (typeof fault.path === "string"
+            ? path.includes(fault.path)
+            : fault.path.test(path)))
+    );
+    if (index === -1) return undefined;
+
+    const fault = this.faults[index]!;
+    if (--fault.remaining <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private async handle(request: Request, url: URL): Promise<Response> {
+    const storageResponse = this.route(
+      this.storageRoutes,
+      request,
+      url,
+      url.pathname.slice(1)
+    );
+    if (storageResponse) return storageResponse;
+
+    const apiPrefix = this.basePath ? `/${this.basePath}/` : "/";
+    if (url.pathname.startsWith(apiPrefix)) {
+      const authorization = request.headers.get("Authorization") ?? "";
+      const key = authorization.replace(/^Bearer\s+/i, "");
+      if (!key || (this.apiKey !== undefined && key !== this.apiKey)) {
+        return this.error(401, NoCloudError.INVALID_API_KEY, "Invalid API key");
+      }
+
+      const apiResponse = this.route(
+        this.apiRoutes,
+        request,
+        url,
+        url.pathname.slice(apiPrefix.length)
+      );
+      if (apiResponse) return apiResponse;
+    }
+
+    return this.error(404, NoCloudError.RESOURCE_NOT_FOUND, "Route not found");
+  }
+
+  private route(
+    routes: Route[],
+    request: Request,
+    url: URL,
+    path: string
+  ): Response | Promise<Response> | undefined {
+    for (const route of routes) {
+      if (route.method !== request.method) continue;
+      const match = path.match(route.pattern);
+      if (match) {
+        return route.handler(request, url, match.slice(1));
+      }
+    }
+    return undefined;
+  }
+
+  private createApiRoutes(): Route[] {
+    return [
+      {
+        method: "GET",
+        pattern: /^storage\/signed-url$/,
+        handler: (_request, url) => this.createSignedUrl(url)
+      },
+      {
+        method: "GET",
+        pattern: /^storage$/,
+        handler: (_request, url) => this.list(url)
+      },
+      {
+        method: "GET",
+        pattern: /^storage\/lookup$/,
+        handler: (_request, url) => this.lookup(url)
+      },
+      {
+        method: "POST",
+        pattern: /^storage\/multipart$/,
+        handler: (request) => this.initiateMultipart(request)
+      },
+      {
+        method: "GET",
+        pattern: /^storage\/multipart\/([^/]+)\/parts\/(\d+)\/signed-url$/,
+        handler: (_request, _url, [uploadId, partNumber]) =>
+          this.createPartUrl(uploadId!, Number(partNumber))
+      },
+      {
+        method: "POST",
+        pattern: /^storage\/multipart\/([^/]+)\/complete$/,
+        handler: (request, _url, [uploadId]) =>
+          this.completeMultipart(request, uploadId!)
+      },
+      {
+        method: "DELETE",
+        pattern: /^storage\/multipart\/([^/]+)$/,
+        handler: (_request, _url, [uploadId]) => this.abortMultipart(uploadId!)
+      },
+      {
+        method: "DELETE",
+        pattern: /^storage\/bulk$/,
+        handler: (request) => this.bulkDelete(request)
+      },
+      {
+        method: "GET",
+        pattern: /^storage\/([^/]+)\/metadata$/,
+        handler: (_request, _url, [mediaId]) => this.getMetadata(mediaId!)
+      },
+      {
+        method: "GET",
+        pattern: /^storage\/([^/]+)\/signed-url$/,
+        handler: (_request, url, [mediaId]) =>
+          this.createDownloadUrl(url, mediaId!)
+      },
+      {
+        method: "PATCH",
+        pattern: /^storage\/([^/]+)\/visibility$/,
+        handler: (request, _url, [mediaId]) =>
+          this.updateVisibility(request, mediaId!)
+      },
+      {
+        method: "PATCH",
+        pattern: /^storage\/([^/]+)\/metadata$/,
+        handler: (request, _url, [mediaId]) =>
+          this.updateMetadata(request, mediaId!)
+      },
+      {
+        method: "GET",
+        pattern: /^storage\/([^/]+)$/,
+        handler: (request, _url, [mediaId]) => this.download(request, mediaId!)
+      },
+      {
+        method: "DELETE",
+        pattern: /^storage\/([^/]+)$/,
+        handler: (_request, _url, [mediaId]) => this.delete(mediaId!)
+      }
+    ];
+  }
+
+  private createStorageRoutes(): Route[] {
+    return [
+      {
+        method: "PUT",
+        pattern: /^__upload\/([^/]+)$/,
+        handler: (request, _url, [mediaId]) =>
+          this.receiveUpload(request, mediaId!)
+      },
+      {
+        method: "PUT",
+        pattern: /^__upload\/([^/]+)\/(\d+)$/,
+        handler: (request, _url, [uploadId, partNumber]) =>
+          this.receivePart(request, uploadId!, Number(partNumber))
+      },
+      {
+        method: "GET",
+        pattern: /^__media\/([^/]+)$/,
+        handler: (request, url, [mediaId]) =>
+          this.serveMedia(request, url, mediaId!)
+      }
+    ];
+  }
+
+  private error(status: number, code: NoCloudError, message: string): Response {
+    return Response.json(
+      { code, message },
+      { status, headers: { "X-Request-Id": this.nextId("req") } }
+    );
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${(++this.sequence).toString().padStart(6, "0")}`;
+  }
+
+  private expiresAt(ttlMs: number = this.signedUrlTtlMs): string {
+    return new Date(Date.now() + ttlMs).toISOString();
+  }
+
+  private createRecord(
+    contentType: string | null,
+    size: number,
+    metadata: FileMetadata,
+    visibility: MediaVisibility = "public"
+  ): MockMediaRecord {
+    const id = this.nextId("media");
+    const record: MockMediaRecord = {
+      id,
+      url: `${this.storageUrl}/__media/${id}`,
+      contentType: contentType || "application/octet-stream",
+      size,
+      visibility,
+      createdAt: new Date().toISOString(),
+      metadata,
+      data: null,
+      etag: ""
+    };
+    this.media.set(id, record);
+    return record;
+  }
+
+  private storeData(record: MockMediaRecord, data: Uint8Array): void {
+    record.data = data;
+    record.size = data.byteLength;
+    record.etag = `"${record.id}-${data.byteLength}-${++this.sequence}"`;
+  }
+
+  private findUploaded(mediaId: string): MockMediaRecord | undefined {
+    const record = this.media.get(mediaId);
+    return record?.data ? record : undefined;
+  }
+
+  private toInfo(record: MockMediaRecord): MediaInfo {
+    const { data: _data, etag: _etag, ...info } = record;
+    return { ...info, metadata: { ...info.metadata } };
+  }
+
+  private parseVisibility(value: unknown): MediaVisibility | null {
+    if (value === undefined || value === null) return "public";
+    return value === "public" || value === "private" ? value : null;
+  }
+
+  private parseMetadata(value: unknown): FileMetadata | null {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== "object" || Array.isArray(value)) return null;
+    return value as FileMetadata;
+  }
+
+  private createSignedUrl(url: URL): Response {
+    const contentType = url.searchParams.get("contentType");
+    const maxSizeParam = url.searchParams.get("maxSize");
+    const maxSize = Number(maxSizeParam);
+    const size =
+      maxSizeParam === null ? Number(url.searchParams.get("size")) : 0;
+    if (
+      !contentType ||
+      !Number.isInteger(size) ||
+      size < 0 ||
+      (maxSizeParam !== null && (!Number.isInteger(maxSize) || maxSize <= 0))
+    ) {
+      return this.error(
+        400,
+        NoCloudError.BAD_REQUEST,
+        "contentType and size or maxSize are required"
+      );
+    }
+
+    const expiresIn = url.searchParams.get("expiresIn");
+    const ttlMs =
+      expiresIn === null ? this.signedUrlTtlMs : Number(expiresIn) * 1000;
+    if (!Number.isInteger(ttlMs) || ttlMs <= 0) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid expiresIn");
+    }
+
+    let metadata: FileMetadata | null = {};
+    try {
+      const raw = url.searchParams.get("metadata");
+      metadata = this.parseMetadata(raw ? JSON.parse(raw) : undefined);
+    } catch {
+      metadata = null;
+    }
+    if (!metadata) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid metadata");
+    }
+
+    let checksums: UploadChecksums | null = {};
+    try {
+      const raw = url.searchParams.get("checksums");
+      checksums = raw ? (JSON.parse(raw) as UploadChecksums) : {};
+    } catch {
+      checksums = null;
+    }
+    if (!checksums || typeof checksums !== "object") {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid checksums");
+    }
+
+    const visibility = this.parseVisibility(url.searchParams.get("visibility"));
+    if (!visibility) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid visibility");
+    }
+
+    const constraints =
+      maxSizeParam === null ? undefined : { contentType, maxSize };
+    const record = this.createRecord(
+      constraints ? null : contentType,
+      size,
+      metadata,
+      visibility
+    );
+    const expiresAt = this.expiresAt(ttlMs);
+    this.signedUploads.set(record.id, {
+      expiresAt: Date.parse(expiresAt),
+      checksums,
+      constraints
+    });
+    return Response.json({
+      url: `${this.storageUrl}/__upload/${record.id}`,
+      expiresAt,
+      mediaId: record.id,
+      mediaUrl: record.url,
+      ...(constraints && { constraints })
+    });
+  }
+
+  private async receiveUpload(
+    request: Request,
+    mediaId: string
+  ): Promise<Response> {
+    const record = this.media.get(mediaId);
+    if (!record) {
+      return new Response("Unknown upload", { status: 404 });
+    }
+
+    const signed = this.signedUploads.get(mediaId);
+    if (signed && signed.expiresAt <= Date.now()) {
+      return new Response("Signed URL has expired", { status: 403 });
+    }
+
+    // Checksums bound into the signed URL must be sent unchanged
+    const sent = readChecksumHeaders(request.headers);
+    for (const [algorithm, value] of Object.entries(signed?.checksums ?? {})) {
+      if (sent[algorithm as ChecksumAlgorithm] !== value) {
+        return new Response("Checksum headers do not match the signature", {
+          status: 403
+        });
+      }
+    }
+
+    // Constrained URLs accept any matching type up to the maximum size
+    const constraints = signed?.constraints;
+    const contentType = request.headers.get("Content-Type") ?? "";
+    if (constraints && !matchesMimeType(contentType, constraints.contentType)) {
+      return new Response(`Content type "${contentType}" is not allowed`, {
+        status: 403
+      });
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (
+      constraints
+        ? data.byteLength > constraints.maxSize
+        : data.byteLength !== record.size
+    ) {
+      return new Response(
+        constraints
+          ? `Expected at most ${constraints.maxSize} bytes, received ${data.byteLength}`
+          : `Expected ${record.size} bytes, received ${data.byteLength}`,
+        { status: 400 }
+      );
+    }
+
+    const algorithms = Object.keys(sent) as ChecksumAlgorithm[];
+    const actual = await computeChecksums(data, algorithms);
+    for (const algorithm of algorithms) {
+      if (actual[algorithm] !== sent[algorithm]) {
+        return new Response(`The ${algorithm} checksum did not match`, {
+          status: 400
+        });
+      }
+    }
+
+    if (constraints) record.contentType = contentType;
+    this.storeData(record, data);
+    if (sent.sha256) {
+      this.contentHashes.set(`${record.visibility}:${sent.sha256}`, record.id);
+    }
+    return new Response(null, { status: 200, headers: { ETag: record.etag } });
+  }
+
+  private lookup(url: URL): Response {
+    const sha256 = url.searchParams.get("sha256");
+    const size = Number(url.searchParams.get("size"));
+    const visibility = this.parseVisibility(url.searchParams.get("visibility"));
+    if (!sha256 || !Number.isInteger(size) || !visibility) {
+      return this.error(
+        400,
+        NoCloudError.BAD_REQUEST,
+        "sha256, size and a valid visibility are required"
+      );
+    }
+
+    const mediaId = this.contentHashes.get(`${visibility}:${sha256}`);
+    const record = mediaId ? this.findUploaded(mediaId) : undefined;
+    if (!record || record.size !== size || record.visibility !== visibility) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "No media with this content"
+      );
+    }
+    return Response.json({ id: record.id, url: record.url });
+  }
+
+  private async initiateMultipart(request: Request): Promise<Response> {
+    const body = (await request.json().catch(() => ({}))) as {
+      contentType?: string;
+      size?: number;
+      metadata?: unknown;
+      visibility?: unknown;
+    };
+    const metadata = this.parseMetadata(body.metadata);
+    const visibility = this.parseVisibility(body.visibility);
+    if (
+      !body.contentType ||
+      typeof body.size !== "number" ||
+      !metadata ||
+      !visibility
+    ) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid request body");
+    }
+
+    const record = this.createRecord(
+      body.contentType,
+      body.size,
+      metadata,
+      visibility
+    );
+    const uploadId = this.nextId("upload");
+    this.multipart.set(uploadId, { mediaId: record.id, parts: new Map() });
+    return Response.json({
+      uploadId,
+      mediaId: record.id,
+      mediaUrl: record.url
+    });
+  }
+
+  private createPartUrl(uploadId: string, partNumber: number): Response {
+    if (!this.multipart.has(uploadId)) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Upload not found"
+      );
+    }
+
+    return Response.json({
+      url: `${this.storageUrl}/__upload/${uploadId}/${partNumber}`,
+      expiresAt: this.expiresAt()
+    });
+  }
+
+  private async receivePart(
+    request: Request,
+    uploadId: string,
+    partNumber: number
+  ): Promise<Response> {
+    const upload = this.multipart.get(uploadId);
+    if (!upload) {
+      return new Response("Unknown upload", { status: 404 });
+    }
+
+    upload.parts.set(partNumber, new Uint8Array(await request.arrayBuffer()));
+    return new Response(null, {
+      status: 200,
+      headers: { ETag: `"${uploadId}-${partNumber}"` }
+    });
+  }
+
+  private async completeMultipart(
+    request: Request,
+    uploadId: string
+  ): Promise<Response> {
+    const upload = this.multipart.get(uploadId);
+    const record = upload && this.media.get(upload.mediaId);
+    if (!upload || !record) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Upload not found"
+      );
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      parts?: { partNumber: number; etag: string }[];
+    };
+    const chunks: Uint8Array[] = [];
+    for (const part of body.parts ?? []) {
+      const chunk = upload.parts.get(part.partNumber);
+      if (!chunk || part.etag !== `"${uploadId}-${part.partNumber}"`) {
+        return this.error(
+          400,
+          NoCloudError.BAD_REQUEST,
+          `Invalid part ${part.partNumber}`
+        );
+      }
+      chunks.push(chunk);
+    }
+
+    const data = new Uint8Array(
+      chunks.reduce((size, chunk) => size + chunk.byteLength, 0)
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    if (data.byteLength !== record.size) {
+      return this.error(
+        400,
+        NoCloudError.BAD_REQUEST,
+        `Expected ${record.size} bytes, received ${data.byteLength}`
+      );
+    }
+
+    this.storeData(record, data);
+    this.multipart.delete(uploadId);
+    return Response.json({ mediaId: record.id, mediaUrl: record.url });
+  }
+
+  private abortMultipart(uploadId: string): Response {
+    const upload = this.multipart.get(uploadId);
+    if (!upload) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Upload not found"
+      );
+    }
+
+    this.multipart.delete(uploadId);
+    this.media.delete(upload.mediaId);
+    return Response.json({ success: true });
+  }
+
+  private createDownloadUrl(url: URL, mediaId: string): Response {
+    const record = this.findUploaded(mediaId);
+    if (!record) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    const expiresIn = Number(url.searchParams.get("expiresIn") ?? 3600);
+    if (!Number.isInteger(expiresIn) || expiresIn <= 0) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid expiresIn");
+    }
+
+    const token = this.nextId("token");
+    const expiresAt = Date.now() + expiresIn * 1000;
+    this.downloadTokens.set(token, {
+      mediaId,
+      expiresAt,
+      contentDisposition: url.searchParams.get("contentDisposition"),
+      responseContentType: url.searchParams.get("responseContentType")
+    });
+    return Response.json({
+      url: `${record.url}?token=${token}`,
+      expiresAt: new Date(expiresAt).toISOString()
+    });
+  }
+
+  private async updateVisibility(
+    request: Request,
+    mediaId: string
+  ): Promise<Response> {
+    const record = this.findUploaded(mediaId);
+    if (!record) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      visibility?: unknown;
+    };
+    const visibility = this.parseVisibility(body.visibility ?? "");
+    if (!visibility) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid visibility");
+    }
+
+    record.visibility = visibility;
+    return Response.json(this.toInfo(record));
+  }
+
+  private serveMedia(request: Request, url: URL, mediaId: string): Response {
+    const tokenParam = url.searchParams.get("token");
+    const token = tokenParam ? this.downloadTokens.get(tokenParam) : undefined;
+    if (tokenParam) {
+      if (
+        !token ||
+        token.mediaId !== mediaId ||
+        token.expiresAt <= Date.now()
+      ) {
+        return new Response("Invalid or expired token", { status: 403 });
+      }
+    } else if (this.findUploaded(mediaId)?.visibility === "private") {
+      return new Response("Media is private", { status: 403 });
+    }
+
+    if (IMAGE_TRANSFORM_PARAMS.some((param) => url.searchParams.has(param))) {
+      return this.serveImage(url, mediaId);
+    }
+    const response = this.download(request, mediaId);
+    if (token?.contentDisposition) {
+      response.headers.set("Content-Disposition", token.contentDisposition);
+    }
+    if (token?.responseContentType) {
+      response.headers.set("Content-Type", token.responseContentType);
+    }
+    return response;
+  }
+
+  /**
+   * Serves a transformed image. The image data is returned unchanged; the applied
+   * transformation is echoed in the `X-Image-Transform` header.
+   */
+  private serveImage(url: URL, mediaId: string): Response {
+    const record = this.findUploaded(mediaId);
+    if (!record?.data) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+    if (!record.contentType.startsWith("image/")) {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Media is not an image");
+    }
+
+    const params = url.searchParams;
+    const number = (name: string) =>
+      params.has(name) ? Number(params.get(name)) : undefined;
+    const format = params.get("format") as ImageFormat | null;
+    try {
+      validateImageTransform({
+        width: number("w"),
+        height: number("h"),
+        quality: number("q"),
+        dpr: number("dpr"),
+        fit: (params.get("fit") as ImageFit | null) ?? undefined,
+        format: format ?? undefined
+      });
+    } catch (error) {
+      return this.error(
+        400,
+        NoCloudError.BAD_REQUEST,
+        error instanceof Error ? error.message : "Invalid transformation"
+      );
+    }
+
+    const transform = new URLSearchParams();
+    for (const param of IMAGE_TRANSFORM_PARAMS) {
+      const value = params.get(param);
+      if (value !== null) transform.append(param, value);
+    }
+    return new Response(record.data.slice(), {
+      status: 200,
+      headers: {
+        "Content-Type": format ? `image/${format}` : record.contentType,
+        "Content-Length": record.data.byteLength.toString(),
+        "X-Image-Transform": transform.toString()
+      }
+    });
+  }
+
+  private download(request: Request, mediaId: string): Response {
+    const record = this.findUploaded(mediaId);
+    if (!record?.data) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": record.contentType,
+      ETag: record.etag,
+      "Last-Modified": new Date(record.createdAt).toUTCString(),
+      "Accept-Ranges": "bytes"
+    };
+    if (request.headers.get("If-None-Match") === record.etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const range = request.headers.get("Range")?.match(/^bytes=(\d+)-(\d*)$/);
+    if (range) {
+      const total = record.data.byteLength;
+      const start = Number(range[1]);
+      const end = Math.min(range[2] ? Number(range[2]) : total - 1, total - 1);
+      if (start > end) {
+        return new Response(null, {
+          status: 416,
+          headers: { "Content-Range": `bytes */${total}` }
+        });
+      }
+
+      const slice = record.data.slice(start, end + 1);
+      return new Response(slice, {
+        status: 206,
+        headers: {
+          ...headers,
+          "Content-Length": slice.byteLength.toString(),
+          "Content-Range": `bytes ${start}-${end}/${total}`
+        }
+      });
+    }
+
+    return new Response(record.data.slice(), {
+      status: 200,
+      headers: {
+        ...headers,
+        "Content-Length": record.data.byteLength.toString()
+      }
+    });
+  }
+
+  private list(url: URL): Response {
+    const params = url.searchParams;
+    const limit = Number(params.get("limit") ?? 100);
+    const offset = Number(params.get("cursor") ?? 0);
+    const contentType = params.get("contentType");
+    const createdAfter = params.get("createdAfter");
+    const createdBefore = params.get("createdBefore");
+    let metadata: FileMetadata = {};
+    try {
+      metadata = JSON.parse(params.get("metadata") ?? "{}");
+    } catch {
+      return this.error(400, NoCloudError.BAD_REQUEST, "Invalid metadata");
+    }
+
+    const matches = [...this.media.values()].filter((record) => {
+      if (!record.data) return false;
+      if (contentType) {
+        const [type, subtype] = contentType.split("/");
+        const [recordType, recordSubtype] = record.contentType.split("/");
+        if (type !== recordType) return false;
+        if (subtype !== "*" && subtype !== recordSubtype) return false;
+      }
+      if (createdAfter && record.createdAt <= createdAfter) return false;
+      if (createdBefore && record.createdAt >= createdBefore) return false;
+      return Object.entries(metadata).every(
+        ([key, value]) => record.metadata[key] === value
+      );
+    });
+
+    const items = matches.slice(offset, offset + limit);
+    const nextOffset = offset + items.length;
+    return Response.json({
+      items: items.map((record) => this.toInfo(record)),
+      nextCursor: nextOffset < matches.length ? nextOffset.toString() : null
+    });
+  }
+
+  private getMetadata(mediaId: string): Response {
+    const record = this.findUploaded(mediaId);
+    if (!record) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    return Response.json(this.toInfo(record));
+  }
+
+  private async updateMetadata(
+    request: Request,
+    mediaId: string
+  ): Promise<Response> {
+    const record = this.findUploaded(mediaId);
+    if (!record) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    const body = (await request.json().catch(() => ({}))) as {
+      mode?: "merge" | "replace";
+      metadata?: MetadataPatch;
+    };
+    const patch = body.metadata ?? {};
+    const metadata: FileMetadata =
+      body.mode === "replace" ? {} : { ...record.metadata };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete metadata[key];
+      } else {
+        metadata[key] = value;
+      }
+    }
+
+    record.metadata = metadata;
+    return Response.json(this.toInfo(record));
+  }
+
+  private delete(mediaId: string): Response {
+    if (!this.media.delete(mediaId)) {
+      return this.error(
+        404,
+        NoCloudError.RESOURCE_NOT_FOUND,
+        "Media not found"
+      );
+    }
+
+    return Response.json({ success: true });
+  }
+
+  private async bulkDelete(request: Request): Promise<Response> {
+    const body = (await request.json().catch(() => ({}))) as {
+      ids?: unknown;
+    };
+    if (!Array.isArray(body.ids) || body.ids.length > 100) {
+      return this.error(
+        400,
+        NoCloudError.BAD_REQUEST,
+        "ids must be an array of at most 100 IDs"
+      );
+    }
+
+    let deleted = 0;
+    for (const id of body.ids) {
+      if (typeof id === "string" && this.media.delete(id)) deleted++;
+    }
+    return Response.json({ success: true, deleted });
+  }
+}
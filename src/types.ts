@@ -1,12 +1,33 @@
+import type { NoCloudAPIError } from "./lib/errors";
+
 /**
  * Upload body types.
  *
  * `File` and `Blob` are streamed.
- * `ArrayBuffer` and `string` are buffered in memory.
+ * `ArrayBuffer`, views (typed arrays, `DataView`, Node.js `Buffer`) and `string` are buffered in memory.
+ * Views upload only the bytes between `byteOffset` and `byteOffset + byteLength`.
  *
  * `string` values (e.g. Base64) are uploaded as-is.
+ *
+ * Web streams and async iterables (e.g. Node.js `Readable`) are read into memory to learn their size.
+ * Use `uploadStream`, or `uploadMultipart` with `size`, to stream them instead.
+ */
+export type FileBody =
+  | File
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | string
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * A `fetch`-compatible function used to perform HTTP requests.
  */
-export type FileBody = File | Blob | ArrayBuffer | string;
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit
+) => Promise<Response>;
 
 /**
  * Metadata associated with a file.
@@ -22,11 +43,29 @@ export interface UploadResponse {
    */
   id: string;
   /**
-   * The public URL where the uploaded file can be accessed.
+   * The URL where the uploaded file can be accessed. Private files are only readable through a signed download URL.
    */
   url: string;
+  /**
+   * The base64-encoded digests sent with the upload, when `checksum` or `dedupe` was requested.
+   */
+  checksums?: UploadChecksums;
+  /**
+   * True if `dedupe` found identical content and returned the existing file without uploading.
+   */
+  deduplicated?: boolean;
 }
 
+/**
+ * Checksum algorithms supported for upload integrity verification.
+ */
+export type ChecksumAlgorithm = "sha256" | "md5" | "crc32c";
+
+/**
+ * Base64-encoded digests of an upload body, by algorithm.
+ */
+export type UploadChecksums = Partial<Record<ChecksumAlgorithm, string>>;
+
 /**
  * Response returned when requesting a signed URL for uploading media.
  */
@@ -36,9 +75,491 @@ export interface SignedUrlResponse {
    */
   url: string;
   /**
-   * The expiration time of the signed URL in ISO 8601 format.
+   * The expiration time of the signed URL in ISO 8601 format. See `getExpiresAt`.
+   */
+  expiresAt: string;
+  /**
+   * The unique identifier for the media after upload.
+   */
+  mediaId: string;
+  /**
+   * The public URL to access the media after upload.
+   */
+  mediaUrl: string;
+  /**
+   * Limits bound into a URL from `createSignedUploadUrl`. The upload is checked
+   * against them before it is sent.
+   */
+  constraints?: SignedUploadConstraints;
+}
+
+/**
+ * Limits on what can be uploaded to a signed URL.
+ */
+export interface SignedUploadConstraints {
+  /**
+   * The allowed MIME type. May end in a wildcard subtype, such as `image/*`.
+   */
+  contentType: string;
+  /**
+   * Maximum size in bytes.
+   */
+  maxSize: number;
+}
+
+/**
+ * Options shared by SDK methods that make requests.
+ */
+export interface RequestOptions {
+  /**
+   * Signal used to cancel the operation. Aborting rejects with `NoCloudError.ABORTED`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Time limit in milliseconds for each request attempt. Exceeding it rejects with `NoCloudError.TIMEOUT`.
+   * Defaults to the `timeoutMs` client option.
+   */
+  timeoutMs?: number;
+  /**
+   * Time limit in milliseconds for the whole operation, across all attempts and retries.
+   * Exceeding it rejects with `NoCloudError.TIMEOUT`. Defaults to the `deadlineMs` client option.
+   */
+  deadlineMs?: number;
+}
+
+/**
+ * Options for generating a signed upload URL.
+ */
+export interface SignedUrlOptions extends RequestOptions {
+  /**
+   * Base64-encoded digests of the body. The upload must send matching
+   * `Content-MD5` / `x-amz-checksum-*` headers.
+   */
+  checksums?: UploadChecksums;
+  /**
+   * Who can read the file through its URL.
+   * @default "public"
+   */
+  visibility?: MediaVisibility;
+}
+
+/**
+ * Who can read a stored file through its URL.
+ * `public` files are readable by anyone with the URL; `private` files require
+ * a signed download URL from `createSignedDownloadUrl`.
+ */
+export type MediaVisibility = "public" | "private";
+
+/**
+ * Options for creating a signed download URL.
+ */
+export interface SignedDownloadUrlOptions extends RequestOptions {
+  /**
+   * Lifetime of the URL in seconds, at most 604800 (7 days).
+   * @default 3600
+   */
+  expiresIn?: number;
+  /**
+   * `Content-Disposition` header served with the file, e.g. `attachment; filename="report.pdf"`.
+   */
+  contentDisposition?: string;
+  /**
+   * `Content-Type` header served with the file, instead of the stored type.
+   */
+  responseContentType?: string;
+}
+
+/**
+ * Response returned when creating a signed download URL.
+ */
+export interface SignedDownloadUrlResponse {
+  /**
+   * The signed URL for downloading the file.
+   */
+  url: string;
+  /**
+   * The expiration time of the signed URL in ISO 8601 format. See `getExpiresAt`.
    */
   expiresAt: string;
+}
+
+/**
+ * Progress of an in-flight upload.
+ */
+export interface UploadProgress {
+  /**
+   * The number of bytes sent so far.
+   */
+  loaded: number;
+  /**
+   * The total number of bytes to send.
+   */
+  total: number;
+  /**
+   * The completion percentage, from 0 to 100.
+   */
+  percent: number;
+}
+
+/**
+ * Options for controlling an upload.
+ */
+export interface UploadOptions extends RequestOptions {
+  /**
+   * Called as the upload body is sent.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+  /**
+   * The MIME type to store the file with, instead of the declared or detected type.
+   */
+  contentType?: string;
+  /**
+   * How a `string` body is decoded. If omitted, base64 of a recognized format is
+   * decoded and anything else is uploaded as UTF-8 text.
+   */
+  encoding?: StringEncoding;
+  /**
+   * Validation rules for this upload. Fields override the client's `uploadPolicy`.
+   */
+  policy?: UploadPolicy;
+  /**
+   * Who can read the file through its URL.
+   * @default "public"
+   */
+  visibility?: MediaVisibility;
+  /**
+   * Checksum algorithms computed over the body and bound into the signed URL,
+   * so storage rejects the upload if the received bytes differ.
+   * Streams are buffered in memory to compute the checksum before uploading.
+   */
+  checksum?: ChecksumAlgorithm | ChecksumAlgorithm[];
+  /**
+   * Preprocesses JPEG, PNG and WebP bodies before uploading: downsizes, re-encodes
+   * and strips metadata such as EXIF GPS data. Other bodies, and streams, are uploaded unchanged.
+   */
+  transform?: ImageUploadTransform;
+  /**
+   * Encrypts the body with AES-GCM before uploading. The stored file can only be read
+   * with `Storage.downloadDecrypted`, so its public URL does not expose the content.
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Hashes the body with SHA-256 and, if a file with the same content and visibility
+   * already exists, returns it instead of uploading. Otherwise the hash is recorded
+   * with the new file. The existing file keeps its own metadata.
+   * Streams are buffered in memory to compute the hash. Cannot be combined with `encryption`.
+   */
+  dedupe?: boolean;
+}
+
+/**
+ * Image preprocessing applied before upload.
+ * Metadata is stripped in pure TypeScript; resizing and re-encoding use `OffscreenCanvas`
+ * and `createImageBitmap`, or `encoder` where those are unavailable, such as in Node.js.
+ */
+export interface ImageUploadTransform {
+  /**
+   * Maximum width and height in pixels. Larger images are downsized, preserving the aspect ratio.
+   */
+  maxDimension?: number;
+  /**
+   * Output format. Images are re-encoded when it differs from the input format.
+   * The input format is kept if omitted.
+   */
+  format?: "webp" | "jpeg";
+  /**
+   * Output quality when re-encoding, from 1 to 100.
+   * @default 85
+   */
+  quality?: number;
+  /**
+   * Removes EXIF, XMP, IPTC and comment metadata. The EXIF orientation is kept, or applied
+   * to the pixels when re-encoding, so images are displayed the right way up.
+   * @default true
+   */
+  stripMetadata?: boolean;
+  /**
+   * Encoder used instead of `OffscreenCanvas`, e.g. one backed by `sharp` in Node.js.
+   */
+  encoder?: ImageEncoder;
+}
+
+/**
+ * Input of an `ImageEncoder`.
+ */
+export interface ImageEncodeRequest {
+  /**
+   * The original image bytes.
+   */
+  data: Uint8Array;
+  /**
+   * The MIME type of `data`.
+   */
+  contentType: string;
+  /**
+   * The MIME type to encode to.
+   */
+  format: "image/webp" | "image/jpeg" | "image/png";
+  /**
+   * Output quality from 1 to 100.
+   */
+  quality: number;
+  /**
+   * Maximum width and height of the output in pixels, if any.
+   */
+  maxDimension?: number;
+  /**
+   * The EXIF orientation of `data`, from 1 to 8. The output must be rotated accordingly
+   * and carry no orientation of its own.
+   */
+  orientation: number;
+}
+
+/**
+ * Resizes and re-encodes an image. The output must not contain metadata.
+ */
+export type ImageEncoder = (
+  request: ImageEncodeRequest
+) => Promise<Blob | ArrayBuffer | Uint8Array>;
+
+/**
+ * Client-side encryption applied before upload.
+ * Each file is encrypted with a random AES-256 data key, in chunks so streams are encrypted
+ * with bounded memory. The data key is wrapped by `keyProvider` and stored, with the IV and
+ * algorithm, in the file's metadata under `nocloud.enc.*` keys.
+ */
+export interface EncryptionOptions {
+  /**
+   * Wraps the data key, e.g. with a KMS.
+   */
+  keyProvider: KeyProvider;
+  /**
+   * Bytes of plaintext encrypted per chunk. Each chunk adds a 16-byte authentication tag.
+   * @default 65536
+   */
+  chunkSize?: number;
+}
+
+/**
+ * A data key wrapped by a `KeyProvider`.
+ */
+export interface WrappedKey {
+  /**
+   * Identifies the key that wrapped the data key, so it can be found again after key rotation.
+   */
+  keyId: string;
+  /**
+   * The wrapped data key, as a string that fits in file metadata, e.g. base64.
+   */
+  wrappedKey: string;
+}
+
+/**
+ * Wraps and unwraps per-file data keys. Implement it to keep the wrapping keys in a KMS.
+ */
+export interface KeyProvider {
+  /**
+   * Wraps a new 32-byte data key before it is stored with a file.
+   */
+  wrapKey(dataKey: Uint8Array): Promise<WrappedKey>;
+  /**
+   * Unwraps a data key read from a file's metadata.
+   */
+  unwrapKey(wrapped: WrappedKey): Promise<Uint8Array>;
+}
+
+/**
+ * Options for creating a signed upload URL to hand to another client, such as a browser.
+ * The file's metadata and visibility are bound into the URL, so the uploading client cannot change them.
+ */
+export interface SignedUploadUrlOptions
+  extends RequestOptions, SignedUploadConstraints {
+  /**
+   * Metadata associated with the file.
+   */
+  metadata?: FileMetadata;
+  /**
+   * Who can read the file through its URL.
+   * @default "public"
+   */
+  visibility?: MediaVisibility;
+  /**
+   * Lifetime of the URL in seconds, at most 604800 (7 days). Defaults to the server's lifetime.
+   */
+  expiresIn?: number;
+}
+
+/**
+ * Options for uploading to a signed URL created elsewhere.
+ * Visibility, checksums and metadata are bound when the URL is created, so they cannot be
+ * set here, and neither can `encryption`, which stores its parameters in the metadata.
+ */
+export interface SignedUploadOptions extends Omit<
+  UploadOptions,
+  "visibility" | "checksum" | "encryption" | "dedupe"
+> {
+  /**
+   * Margin in milliseconds before `expiresAt` from which the URL counts as expired.
+   * Uploads are not started, or retried, with an expired URL.
+   * @default 5000
+   */
+  expirySkewMs?: number;
+}
+
+/**
+ * Encodings of `string` upload bodies.
+ */
+export type StringEncoding = "utf8" | "base64" | "base64url" | "hex";
+
+/**
+ * Validation rules checked before an upload makes any request.
+ * Violations throw a `NoCloudAPIError` whose `details` describe the failed rule.
+ */
+export interface UploadPolicy {
+  /**
+   * Allowed MIME types. Patterns may end in a wildcard subtype, such as `image/*`.
+   * All types are allowed if omitted.
+   */
+  allowedTypes?: string[];
+  /**
+   * Minimum size in bytes.
+   */
+  minSize?: number;
+  /**
+   * Maximum size in bytes.
+   */
+  maxSize?: number;
+  /**
+   * Requires the type sniffed from the content to match the declared type, such as `Blob.type`.
+   * Content of an unrecognized format is accepted.
+   * @default false
+   */
+  verifyContentType?: boolean;
+}
+
+/**
+ * The rule an upload violated, reported in `NoCloudAPIError.details`.
+ */
+export type UploadPolicyViolation =
+  | { rule: "allowedTypes"; contentType: string; allowedTypes: string[] }
+  | { rule: "minSize"; size: number; minSize: number }
+  | { rule: "maxSize"; size: number; maxSize: number }
+  | { rule: "verifyContentType"; declaredType: string; detectedType: string };
+
+/**
+ * Options for a multipart upload.
+ * Parts are sent without checksums, so `checksum` cannot be set, and neither can
+ * `encryption` or `dedupe`.
+ */
+export interface MultipartUploadOptions extends Omit<
+  UploadOptions,
+  "checksum" | "encryption" | "dedupe"
+> {
+  /**
+   * Optional metadata associated with the file.
+   */
+  metadata?: FileMetadata;
+  /**
+   * Total size in bytes of a stream or async iterable body, which is then read one
+   * part at a time instead of into memory. Required for such bodies and ignored for others.
+   * The content type defaults to `application/octet-stream`.
+   */
+  size?: number;
+  /**
+   * Size of each part in bytes. Every part except the last must be at least 5 MiB.
+   * @default 8388608 (8 MiB)
+   */
+  partSize?: number;
+  /**
+   * Number of parts uploaded in parallel.
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Number of retry attempts for each part upload. Parts are retried like other
+   * requests: only retryable failures, with backoff. Defaults to the client's retry policy.
+   */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry of a part, growing with backoff.
+   * Defaults to the client's retry policy.
+   */
+  retryDelayMs?: number;
+  /**
+   * A token from a previous, interrupted upload of the same body.
+   * Parts recorded in the token are not uploaded again.
+   */
+  resumeToken?: MultipartResumeToken;
+  /**
+   * Called after each part finishes with an updated resume token.
+   * Persist it to continue the upload later if it is interrupted.
+   */
+  onPartComplete?: (token: MultipartResumeToken) => void;
+  /**
+   * Whether to abort the upload on the server, discarding its parts, when it fails or
+   * is aborted. Set to `false` to keep the parts and resume with the token from
+   * `onPartComplete`; call `abortMultipart` if you give up on it later.
+   * @default true
+   */
+  abortOnFailure?: boolean;
+}
+
+/**
+ * A part of a multipart upload that has been uploaded.
+ */
+export interface MultipartPart {
+  /**
+   * The 1-based part number.
+   */
+  partNumber: number;
+  /**
+   * The ETag returned by storage for the part.
+   */
+  etag: string;
+}
+
+/**
+ * JSON-serializable state of a multipart upload, used to resume it.
+ */
+export interface MultipartResumeToken {
+  /**
+   * The identifier of the multipart upload.
+   */
+  uploadId: string;
+  /**
+   * The unique identifier for the media after upload.
+   */
+  mediaId: string;
+  /**
+   * The public URL to access the media after upload.
+   */
+  mediaUrl: string;
+  /**
+   * The MIME type of the file.
+   */
+  contentType: string;
+  /**
+   * The total size of the file in bytes.
+   */
+  size: number;
+  /**
+   * The size of each part in bytes.
+   */
+  partSize: number;
+  /**
+   * Parts that have already been uploaded.
+   */
+  parts: MultipartPart[];
+}
+
+/**
+ * Response returned when initiating a multipart upload.
+ */
+export interface MultipartInitResponse {
+  /**
+   * The identifier of the multipart upload.
+   */
+  uploadId: string;
   /**
    * The unique identifier for the media after upload.
    */
@@ -48,3 +569,673 @@ export interface SignedUrlResponse {
    */
   mediaUrl: string;
 }
+
+/**
+ * A file to upload with `uploadMany`.
+ */
+export interface UploadManyItem {
+  /**
+   * The file body to upload.
+   */
+  body: FileBody;
+  /**
+   * Optional metadata associated with the file.
+   */
+  metadata?: FileMetadata;
+  /**
+   * The MIME type to store the file with, instead of the declared or detected type.
+   */
+  contentType?: string;
+}
+
+/**
+ * Options for a batch upload.
+ */
+export interface UploadManyOptions extends Omit<
+  UploadOptions,
+  "onProgress" | "contentType"
+> {
+  /**
+   * Number of files uploaded in parallel.
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Skips the remaining files after the first failure. Skipped files are reported
+   * as failed with `NoCloudError.ABORTED`.
+   * @default false
+   */
+  stopOnError?: boolean;
+  /**
+   * Called as each file finishes uploading or fails.
+   */
+  onItemComplete?: (result: BatchResult<UploadResponse>) => void;
+}
+
+/**
+ * The outcome of one item in a batch operation.
+ * `index` is the position of the item in the input array.
+ */
+export type BatchResult<T> =
+  | { ok: true; index: number; value: T }
+  | { ok: false; index: number; error: NoCloudAPIError };
+
+/**
+ * Upload options persisted with a queued upload. Callbacks and signals cannot be persisted.
+ */
+export type QueuedUploadOptions = Pick<
+  UploadOptions,
+  "contentType" | "encoding" | "policy" | "visibility" | "checksum" | "dedupe"
+>;
+
+/**
+ * An upload persisted by the upload queue.
+ */
+export interface QueuedUpload {
+  /**
+   * The unique identifier of the queued upload.
+   */
+  id: string;
+  /**
+   * The body to upload. Views and streams are converted to an `ArrayBuffer` when queued.
+   */
+  body: Blob | ArrayBuffer | string;
+  /**
+   * Metadata associated with the file.
+   */
+  metadata?: FileMetadata;
+  /**
+   * Options for the upload.
+   */
+  options: QueuedUploadOptions;
+  /**
+   * `pending` uploads are waiting or in progress; `failed` uploads stopped after a
+   * non-retryable error or too many attempts, and wait for `retry` or `remove`.
+   */
+  status: "pending" | "failed";
+  /**
+   * The number of attempts made so far.
+   */
+  attempts: number;
+  /**
+   * The time the upload was queued, in ISO 8601 format.
+   */
+  createdAt: string;
+  /**
+   * The last error, if an attempt has failed.
+   */
+  error?: {
+    code: NoCloudAPIError["code"];
+    message: string;
+  };
+}
+
+/**
+ * Persists queued uploads, so they survive page reloads and process restarts.
+ * Entries hold Blobs, so adapters must support structured cloning or store them by reference.
+ */
+export interface QueueStorageAdapter {
+  /**
+   * Returns every persisted upload.
+   */
+  load(): Promise<QueuedUpload[]>;
+  /**
+   * Inserts or replaces an upload, keyed by `id`.
+   */
+  save(upload: QueuedUpload): Promise<void>;
+  /**
+   * Removes an upload. Removing a missing upload is not an error.
+   */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Caches the files found or created by `dedupe` uploads, so repeated uploads of the
+ * same content skip the API lookup. Keys identify the content and visibility.
+ */
+export interface DedupeCache {
+  /**
+   * Returns the file cached for a key, if any.
+   */
+  get(
+    key: string
+  ): UploadResponse | undefined | Promise<UploadResponse | undefined>;
+  /**
+   * Caches a file for a key.
+   */
+  set(key: string, response: UploadResponse): void | Promise<void>;
+  /**
+   * Removes a key, e.g. after its file is deleted. Removing a missing key is not an error.
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for the upload queue.
+ */
+export interface UploadQueueOptions {
+  /**
+   * Where queued uploads are persisted. Use `IndexedDBQueueAdapter` in browsers
+   * to survive reloads.
+   * @default MemoryQueueAdapter
+   */
+  adapter?: QueueStorageAdapter;
+  /**
+   * Number of uploads run in parallel.
+   * @default 2
+   */
+  concurrency?: number;
+  /**
+   * Maximum number of attempts per upload before it is marked as failed.
+   * Retryable failures, such as network errors, are retried indefinitely by default.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in milliseconds before retrying a failed upload, doubled after each attempt.
+   * Uploads are also retried as soon as the browser reports it is back online.
+   * @default 1000
+   */
+  retryDelayMs?: number;
+  /**
+   * Maximum delay in milliseconds between retries.
+   * @default 60000
+   */
+  maxRetryDelayMs?: number;
+  /**
+   * Whether to load persisted uploads and start draining as soon as the queue is created.
+   * When false, call `start`.
+   * @default true
+   */
+  autoStart?: boolean;
+}
+
+/**
+ * Events emitted by the upload queue, with their payloads.
+ */
+export interface UploadQueueEvents {
+  /**
+   * An upload was added to the queue.
+   */
+  queued: { upload: QueuedUpload };
+  /**
+   * An attempt to upload started.
+   */
+  started: { upload: QueuedUpload };
+  /**
+   * Bytes of an upload were sent.
+   */
+  progress: { upload: QueuedUpload; progress: UploadProgress };
+  /**
+   * An upload completed and was removed from the queue.
+   */
+  succeeded: { upload: QueuedUpload; response: UploadResponse };
+  /**
+   * An attempt failed. `willRetry` is false once the upload is marked as failed.
+   */
+  failed: { upload: QueuedUpload; error: NoCloudAPIError; willRetry: boolean };
+}
+
+/**
+ * Information about a failed attempt, passed to `RetryPolicy.shouldRetry`.
+ */
+export interface RetryContext {
+  /**
+   * The zero-based number of the attempt that failed.
+   */
+  attempt: number;
+  /**
+   * The HTTP method of the request.
+   */
+  method: string;
+  /**
+   * Milliseconds elapsed since the first attempt started.
+   */
+  elapsedMs: number;
+  /**
+   * The response of the failed attempt, if the server responded.
+   */
+  response?: Response;
+  /**
+   * The error thrown by the failed attempt, if the request did not complete.
+   */
+  error?: unknown;
+}
+
+/**
+ * Controls how failed API requests are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of retry attempts after the first request.
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry. Later retries back off exponentially.
+   * @default 1000
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound in milliseconds for the delay before a retry, including delays
+   * requested by `Retry-After`.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Multiplier applied to the delay after each retry.
+   * @default 2
+   */
+  backoffFactor?: number;
+  /**
+   * Randomizes each delay between half and the full computed value.
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * HTTP status codes that are retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+  /**
+   * Waits for the duration given by the `Retry-After` response header when present,
+   * up to `maxDelayMs`.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * Maximum time in milliseconds spent across all attempts and delays.
+   * No retry is started if its delay would exceed this budget.
+   */
+  maxElapsedMs?: number;
+  /**
+   * Retries non-idempotent methods such as `POST` and `PATCH`.
+   * @default false
+   */
+  retryNonIdempotent?: boolean;
+  /**
+   * Custom predicate that decides whether a failed attempt is retried.
+   * Return `undefined` to fall back to the default decision.
+   */
+  shouldRetry?: (context: RetryContext) => boolean | undefined;
+}
+
+/**
+ * A byte range of a file. Both offsets are inclusive, as in the HTTP `Range` header.
+ */
+export interface ByteRange {
+  /**
+   * The offset of the first byte.
+   */
+  start: number;
+  /**
+   * The offset of the last byte. Reads to the end of the file if omitted.
+   */
+  end?: number;
+}
+
+/**
+ * Options for reading a stored file.
+ */
+export interface DownloadOptions extends RequestOptions {
+  /**
+   * Reads only part of the file using an HTTP Range request.
+   */
+  range?: ByteRange;
+  /**
+   * An ETag from a previous read. If the file is unchanged, no body is returned.
+   */
+  ifNoneMatch?: string;
+}
+
+/**
+ * Options for reading a file uploaded with `encryption`.
+ */
+export interface DecryptedDownloadOptions extends RequestOptions {
+  /**
+   * Unwraps the file's data key. Must be able to unwrap keys wrapped at upload.
+   */
+  keyProvider: KeyProvider;
+}
+
+/**
+ * How an image is resized when both `width` and `height` are set.
+ * - `scale-down`: fit within the box, never enlarging.
+ * - `contain`: fit within the box, preserving the aspect ratio.
+ * - `cover`: fill the box, cropping to preserve the aspect ratio.
+ * - `crop`: like `cover`, but never enlarging.
+ * - `pad`: fit within the box and pad the remaining area.
+ */
+export type ImageFit = "scale-down" | "contain" | "cover" | "crop" | "pad";
+
+/**
+ * Output format of a transformed image.
+ */
+export type ImageFormat = "webp" | "avif" | "jpeg" | "png";
+
+/**
+ * Options for building an image transformation URL.
+ */
+export interface ImageTransformOptions {
+  /**
+   * Target width in pixels, from 1 to 8192.
+   */
+  width?: number;
+  /**
+   * Target height in pixels, from 1 to 8192.
+   */
+  height?: number;
+  /**
+   * How the image is resized when both `width` and `height` are set.
+   * @default "scale-down"
+   */
+  fit?: ImageFit;
+  /**
+   * Output format. The original format is kept if omitted.
+   */
+  format?: ImageFormat;
+  /**
+   * Output quality for lossy formats, from 1 to 100.
+   */
+  quality?: number;
+  /**
+   * Device pixel ratio multiplying `width` and `height`, from 1 to 4.
+   * @default 1
+   */
+  dpr?: number;
+}
+
+/**
+ * Options for building a `srcset` string. Set exactly one of `widths` or `densities`.
+ */
+export interface ImageSrcSetOptions extends Omit<ImageTransformOptions, "dpr"> {
+  /**
+   * Widths in pixels, producing `w` descriptors. `width` must not be set.
+   */
+  widths?: number[];
+  /**
+   * Device pixel ratios, producing `x` descriptors.
+   */
+  densities?: number[];
+}
+
+/**
+ * Format of the data returned by `Storage.download`.
+ */
+export type DownloadFormat = "blob" | "arrayBuffer" | "stream" | "text";
+
+/**
+ * A stored file returned by `Storage.get`.
+ */
+export interface MediaContent {
+  /**
+   * The unique identifier of the file.
+   */
+  id: string;
+  /**
+   * The MIME type of the file.
+   */
+  contentType: string;
+  /**
+   * The size of the returned body in bytes, or null if unknown.
+   */
+  size: number | null;
+  /**
+   * The ETag of the file, usable with `ifNoneMatch`.
+   */
+  etag: string | null;
+  /**
+   * The last modification time of the file.
+   */
+  lastModified: Date | null;
+  /**
+   * The returned byte range and total file size, for partial reads.
+   */
+  range: (Required<ByteRange> & { total: number | null }) | null;
+  /**
+   * True if `ifNoneMatch` matched and no body was returned.
+   */
+  notModified: boolean;
+  /**
+   * The body as a stream, or null if not modified.
+   */
+  body: ReadableStream<Uint8Array> | null;
+  /**
+   * Reads the body as a Blob.
+   */
+  blob(): Promise<Blob>;
+  /**
+   * Reads the body as an ArrayBuffer.
+   */
+  arrayBuffer(): Promise<ArrayBuffer>;
+  /**
+   * Reads the body as text.
+   */
+  text(): Promise<string>;
+}
+
+/**
+ * Information about a stored file.
+ */
+export interface MediaInfo {
+  /**
+   * The unique identifier of the file.
+   */
+  id: string;
+  /**
+   * The URL where the file can be accessed. Private files are only readable through a signed download URL.
+   */
+  url: string;
+  /**
+   * The MIME type of the file.
+   */
+  contentType: string;
+  /**
+   * The size of the file in bytes.
+   */
+  size: number;
+  /**
+   * Who can read the file through its URL.
+   */
+  visibility: MediaVisibility;
+  /**
+   * The creation time of the file in ISO 8601 format.
+   */
+  createdAt: string;
+  /**
+   * Metadata associated with the file.
+   */
+  metadata: FileMetadata;
+}
+
+/**
+ * Options for listing stored files.
+ */
+export interface ListOptions extends RequestOptions {
+  /**
+   * Maximum number of items per page.
+   * @default 100
+   */
+  limit?: number;
+  /**
+   * Cursor from a previous page's `nextCursor`.
+   */
+  cursor?: string;
+  /**
+   * Only include files with this MIME type. Supports wildcards such as `image/*`.
+   */
+  contentType?: string;
+  /**
+   * Only include files whose metadata contains all of these key-value pairs.
+   */
+  metadata?: FileMetadata;
+  /**
+   * Only include files created after this time.
+   */
+  createdAfter?: Date | string;
+  /**
+   * Only include files created before this time.
+   */
+  createdBefore?: Date | string;
+}
+
+/**
+ * A page of stored files.
+ */
+export interface MediaListPage {
+  /**
+   * The files in this page.
+   */
+  items: MediaInfo[];
+  /**
+   * Cursor for the next page, or null if this is the last page.
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Changes to apply to a file's metadata. In `merge` mode, `null` removes a key.
+ */
+export type MetadataPatch = Record<string, string | number | boolean | null>;
+
+/**
+ * Options for updating a file's metadata.
+ */
+export interface UpdateMetadataOptions extends RequestOptions {
+  /**
+   * `merge` applies the patch on top of the existing metadata,
+   * `replace` discards the existing metadata.
+   * @default "merge"
+   */
+  mode?: "merge" | "replace";
+}
+
+/**
+ * A request passing through the interceptor chain.
+ * Interceptors may mutate `url`, `init` and `headers` before the request is sent.
+ */
+export interface RequestContext {
+  /**
+   * The URL of the request.
+   */
+  url: string;
+  /**
+   * The request options, excluding headers.
+   */
+  init: Omit<RequestInit, "headers">;
+  /**
+   * The request headers.
+   */
+  headers: Headers;
+  /**
+   * `api` for authenticated API requests, `external` for requests to other hosts such as signed upload URLs.
+   */
+  kind: "api" | "external";
+  /**
+   * The zero-based attempt number when the request is retried.
+   */
+  attempt: number;
+  /**
+   * Time in milliseconds when the request started.
+   */
+  startedAt: number;
+  /**
+   * Scratch space shared by the interceptor hooks of this request, e.g. for timings.
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Hooks invoked around every HTTP request made by the SDK.
+ * Every hook may be async.
+ */
+export interface Interceptor {
+  /**
+   * Called before the request is sent. Returning a Response skips the request and uses it instead.
+   */
+  onRequest?: (
+    context: RequestContext
+  ) => void | Response | Promise<void | Response>;
+  /**
+   * Called with the response. Returning a Response replaces it.
+   */
+  onResponse?: (
+    context: RequestContext,
+    response: Response
+  ) => void | Response | Promise<void | Response>;
+  /**
+   * Called when the request fails without a response. Returning a Response recovers from the error.
+   */
+  onError?: (
+    context: RequestContext,
+    error: unknown
+  ) => void | Response | Promise<void | Response>;
+}
+
+/**
+ * Severity of a log record, from most to least verbose.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured data attached to a log record.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the SDK's log records. `console` can be used as-is.
+ * API keys are redacted before records are passed to the logger.
+ */
+export interface Logger {
+  /**
+   * Every HTTP request and response.
+   */
+  debug(message: string, fields?: LogFields): void;
+  /**
+   * Completed operations, such as uploads and deletes.
+   */
+  info(message: string, fields?: LogFields): void;
+  /**
+   * Retried requests.
+   */
+  warn(message: string, fields?: LogFields): void;
+  /**
+   * Failed operations.
+   */
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Attributes recorded on a span. `undefined` values are ignored.
+ */
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * A timed operation reported to a `Tracer`.
+ */
+export interface Span {
+  /**
+   * Adds or replaces attributes, such as the size of an upload or the attempt number.
+   */
+  setAttributes(attributes: SpanAttributes): void;
+  /**
+   * Ends the span. `error` is set if the operation failed.
+   */
+  end(error?: NoCloudAPIError): void;
+}
+
+/**
+ * Creates spans for SDK operations, such as `storage.upload` with child spans for
+ * `signed-url` and `put`. Implement it to bridge spans to OpenTelemetry or another tracer.
+ */
+export interface Tracer {
+  /**
+   * Starts a span.
+   * @param name - The operation name.
+   * @param attributes - The attributes known when the operation starts.
+   * @param parent - The span this tracer started for the enclosing operation, for child operations.
+   */
+  startSpan(name: string, attributes: SpanAttributes, parent?: Span): Span;
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { NoCloud, NoCloudAPIError, NoCloudError } from "@nocloud/sdk";
+import { NodeStorage } from "../src/node";
+import { MockNoCloudServer } from "../src/testing";
+
+describe("Node file helpers (Mock)", () => {
+  let server: MockNoCloudServer;
+  let files: NodeStorage;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = new MockNoCloudServer({ apiKey: "test-api-key" });
+    const cloud = new NoCloud({ apiKey: "test-api-key", fetch: server.fetch });
+    files = new NodeStorage(cloud.storage);
+    dir = await mkdtemp(join(tmpdir(), "nocloud-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should upload a file from disk with a detected content type", async () => {
+    const pngPath = join(dir, "image.bin");
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a
+    ]);
+    await writeFile(pngPath, png);
+    const csvPath = join(dir, "table.csv");
+    await writeFile(csvPath, "a,b\n1,2\n");
+
+    const image = await files.uploadFile(pngPath, { source: "disk" });
+    const table = await files.uploadFile(csvPath);
+
+    expect(server.media.get(image.id)?.contentType).toBe("image/png");
+    expect(server.media.get(image.id)?.metadata).toEqual({ source: "disk" });
+    expect(server.media.get(image.id)?.data).toEqual(png);
+    expect(server.media.get(table.id)?.contentType).toBe("text/csv");
+  });
+
+  it("should reject directories", async () => {
+    const error = await files.uploadFile(dir).catch((e) => e);
+    expect(error).toBeInstanceOf(NoCloudAPIError);
+    expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(true);
+  });
+
+  it("should wrap file-system errors", async () => {
+    const error = await files
+      .uploadFile(join(dir, "missing.txt"))
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(NoCloudAPIError);
+    expect(
+      NoCloudAPIError.isError(error, NoCloudError.RESOURCE_NOT_FOUND)
+    ).toBe(true);
+    expect(error.cause.code).toBe("ENOENT");
+  });
+
+  it("should download a file to disk and replace the target atomically", async () => {
+    const source = join(dir, "source.txt");
+    await writeFile(source, "downloaded content");
+    const { id } = await files.uploadFile(source);
+
+    const target = join(dir, "target.txt");
+    await writeFile(target, "old");
+    const result = await files.downloadToFile(id, target);
+
+    expect(result).toEqual({
+      path: target,
+      size: 18,
+      contentType: "text/plain",
+      etag: expect.any(String)
+    });
+    expect(await readFile(target, "utf8")).toBe("downloaded content");
+    expect((await readdir(dir)).some((name) => name.endsWith(".tmp"))).toBe(
+      false
+    );
+  });
+
+  it("should leave the target untouched when the download fails", async () => {
+    const target = join(dir, "kept.txt");
+    await writeFile(target, "original");
+
+    const error = await files.downloadToFile("missing", target).catch((e) => e);
+
+    expect(
+      NoCloudAPIError.isError(error, NoCloudError.RESOURCE_NOT_FOUND)
+    ).toBe(true);
+    expect(await readFile(target, "utf8")).toBe("original");
+  });
+});
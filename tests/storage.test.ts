@@ -1,24 +1,60 @@
-import { afterAll, beforeAll, describe, expect, it } from "bun:test";
-import { NoCloud } from "../src";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it
+} from "bun:test";
+import {
+  AesKeyProvider,
+  LruDedupeCache,
+  MemoryQueueAdapter,
+  NoCloud,
+  NoCloudAPIError,
+  NoCloudError,
+  NoCloudUploader,
+  UploadQueue,
+  computeChecksums,
+  detectMimeType,
+  getEncryptedSize,
+  getExpiresAt,
+  isSignedUrlExpired,
+  sniffMimeType,
+  sniffStream,
+  stripImageMetadata,
+  type ImageEncodeRequest,
+  type KeyProvider,
+  type LogFields,
+  type Logger,
+  type MultipartResumeToken,
+  type Span,
+  type SpanAttributes,
+  type Tracer,
+  type UploadQueueEvents
+} from "../src";
+import { Readable } from "node:stream";
+import { detectBase64MimeType } from "../src/lib/utils";
+import { MockNoCloudServer } from "../src/testing";
 
-describe("Storage API (Stage)", () => {
+describe("Storage API (Mock)", () => {
+  let server: MockNoCloudServer;
   let cloud: NoCloud;
   let uploadedMediaIds: string[] = [];
 
   beforeAll(() => {
-    const apiKey = process.env.NOCLOUD_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "NOCLOUD_API_KEY environment variable is required. Set it before running tests."
-      );
-    }
-
+    server = new MockNoCloudServer({ apiKey: "test-api-key" });
     cloud = new NoCloud({
-      apiKey,
-      baseUrl: process.env.NOCLOUD_API_URL
+      apiKey: "test-api-key",
+      fetch: server.fetch,
+      retryPolicy: { baseDelayMs: 1, jitter: false }
     });
   });
 
+  beforeEach(() => {
+    server.clearFaults();
+  });
+
   afterAll(async () => {
     try {
       await cloud.storage.delete(uploadedMediaIds);
@@ -92,6 +128,110 @@ describe("Storage API (Stage)", () => {
     });
   });
 
+  describe("body types", () => {
+    it("should upload only the bytes covered by a view", async () => {
+      const backing = new TextEncoder().encode("xxHello viewxx");
+      const views = [
+        backing.subarray(2, 12),
+        new DataView(backing.buffer, 2, 10),
+        Buffer.from(backing.buffer, 2, 10)
+      ];
+
+      for (const view of views) {
+        const { id } = await cloud.storage.upload(view);
+        uploadedMediaIds.push(id);
+        expect(new TextDecoder().decode(server.media.get(id)?.data!)).toBe(
+          "Hello view"
+        );
+      }
+    });
+
+    it("should upload async iterables and Node.js streams", async () => {
+      async function* chunks() {
+        yield new TextEncoder().encode("from ");
+        yield "an iterable";
+      }
+
+      const fromIterable = await cloud.storage.upload(chunks());
+      const fromReadable = await cloud.storage.uploadStream(
+        Readable.from([Buffer.from("from "), Buffer.from("a Readable")]),
+        "text/plain",
+        15
+      );
+      uploadedMediaIds.push(fromIterable.id, fromReadable.id);
+
+      const text = (id: string) =>
+        new TextDecoder().decode(server.media.get(id)?.data!);
+      expect(text(fromIterable.id)).toBe("from an iterable");
+      expect(server.media.get(fromIterable.id)?.size).toBe(16);
+      expect(text(fromReadable.id)).toBe("from a Readable");
+    });
+  });
+
+  describe("string bodies", () => {
+    const stored = (id: string) => server.media.get(id)!;
+
+    it("should decode strings with an explicit encoding", async () => {
+      const bytes = new Uint8Array([0xfb, 0xff, 0x00, 0x10]);
+      const base64 = await cloud.storage.upload(
+        btoa("\xfb\xff\x00\x10"),
+        undefined,
+        {
+          encoding: "base64"
+        }
+      );
+      const base64url = await cloud.storage.upload("-_8AEA", undefined, {
+        encoding: "base64url"
+      });
+      const hex = await cloud.storage.upload("fbff0010", undefined, {
+        encoding: "hex",
+        contentType: "application/x-custom"
+      });
+      uploadedMediaIds.push(base64.id, base64url.id, hex.id);
+
+      expect(stored(base64.id).data).toEqual(bytes);
+      expect(stored(base64.id).contentType).toBe("application/octet-stream");
+      expect(stored(base64url.id).data).toEqual(bytes);
+      expect(stored(hex.id).data).toEqual(bytes);
+      expect(stored(hex.id).contentType).toBe("application/x-custom");
+    });
+
+    it("should label text with the given content type", async () => {
+      const { id } = await cloud.storage.upload("a,b\n1,2", undefined, {
+        contentType: "text/csv"
+      });
+      uploadedMediaIds.push(id);
+      expect(stored(id).contentType).toBe("text/csv");
+    });
+
+    it("should upload JSON values", async () => {
+      const { id } = await cloud.storage.uploadJson({ hello: ["world", 1] });
+      uploadedMediaIds.push(id);
+
+      expect(stored(id).contentType).toBe("application/json");
+      expect(JSON.parse(new TextDecoder().decode(stored(id).data!))).toEqual({
+        hello: ["world", 1]
+      });
+    });
+
+    it("should reject malformed input with INVALID_ENCODING", async () => {
+      for (const [body, encoding] of [
+        ["not base64!", "base64"],
+        ["ab+/", "base64url"],
+        ["abc", "hex"]
+      ] as const) {
+        const error = await cloud.storage
+          .upload(body, undefined, { encoding })
+          .catch((e) => e);
+        expect(
+          NoCloudAPIError.isError(error, NoCloudError.INVALID_ENCODING)
+        ).toBe(true);
+        expect(error.status).toBe(400);
+        expect(error.details).toEqual({ encoding });
+      }
+    });
+  });
+
   describe("delete", () => {
     it("should delete an uploaded file", async () => {
       // First upload a file
@@ -107,6 +247,174 @@ describe("Storage API (Stage)", () => {
     it("should throw error when deleting non-existent file", async () => {
       expect(cloud.storage.delete("non-existent-media-id")).rejects.toThrow();
     });
+
+    it("should report partial failures for bulk deletes", async () => {
+      const ids = Array.from({ length: 150 }, (_, i) => `bulk-${i}`);
+      server.injectFault({ path: "bulk", status: 400 });
+
+      const results = await cloud.storage.delete(ids);
+
+      expect(results).toHaveLength(150);
+      expect(results.slice(0, 100).every((result) => !result.ok)).toBe(true);
+      expect(results.slice(100).every((result) => result.ok)).toBe(true);
+      expect(results[120]).toEqual({ ok: true, index: 120, value: "bulk-120" });
+    });
+
+    it("should apply the deadline across delete batches", async () => {
+      const ids = Array.from({ length: 150 }, (_, i) => `slow-${i}`);
+      server.injectFault({ path: "bulk", delayMs: 1000, times: 2 });
+
+      const results = await cloud.storage.delete(ids, { deadlineMs: 20 });
+      expect(results).toHaveLength(150);
+      expect(
+        results.every(
+          (result) =>
+            !result.ok &&
+            NoCloudAPIError.isError(result.error, NoCloudError.TIMEOUT)
+        )
+      ).toBe(true);
+
+      const controller = new AbortController();
+      controller.abort();
+      const error = await cloud.storage
+        .delete("slow", { signal: controller.signal })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.ABORTED)).toBe(true);
+    });
+  });
+
+  describe("checksums", () => {
+    const text = (value: string) => new TextEncoder().encode(value);
+
+    it("should compute standard digests", async () => {
+      expect(
+        await computeChecksums(text("abc"), ["sha256", "md5", "crc32c"])
+      ).toEqual({
+        sha256: "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=",
+        md5: "kAFQmDzST7DWlj99KOF/cg==",
+        crc32c: "Nks/tw=="
+      });
+
+      // Multi-block input split across uneven chunks
+      const long = text("a".repeat(1000));
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(long.subarray(0, 63));
+          controller.enqueue(long.subarray(63, 200));
+          controller.enqueue(long.subarray(200));
+          controller.close();
+        }
+      });
+      expect(await computeChecksums(stream, ["sha256", "md5"])).toEqual({
+        sha256: "Qe3s5C1j6Nm/UVqbppMuHCDLyfWl0TRkWttdsblzfqM=",
+        md5: "yr5F3MmuW2a6hmAMymuLqA=="
+      });
+
+      // Buffers are hashed with WebCrypto and must match the incremental hasher
+      expect(
+        await computeChecksums(new Blob([long]), ["sha256", "md5"])
+      ).toEqual({
+        sha256: "Qe3s5C1j6Nm/UVqbppMuHCDLyfWl0TRkWttdsblzfqM=",
+        md5: "yr5F3MmuW2a6hmAMymuLqA=="
+      });
+    });
+
+    it("should bind the checksum into the signed upload", async () => {
+      const response = await cloud.storage.upload("verified", undefined, {
+        checksum: "sha256"
+      });
+      uploadedMediaIds.push(response.id);
+
+      expect(response.checksums?.sha256).toBe(
+        (await computeChecksums(text("verified"), ["sha256"])).sha256
+      );
+      expect(server.requests.at(-1)?.headers["x-amz-checksum-sha256"]).toBe(
+        response.checksums!.sha256!
+      );
+    });
+
+    it("should checksum streams with multiple algorithms", async () => {
+      const response = await cloud.storage.uploadStream(
+        new Blob(["streamed"]).stream(),
+        "text/plain",
+        8,
+        undefined,
+        { checksum: ["md5", "crc32c"] }
+      );
+      uploadedMediaIds.push(response.id);
+
+      expect(Object.keys(response.checksums ?? {})).toEqual(["md5", "crc32c"]);
+      expect(server.requests.at(-1)?.headers["content-md5"]).toBe(
+        response.checksums!.md5!
+      );
+    });
+
+    it("should reject uploads whose bytes do not match the checksum", async () => {
+      const corrupting = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: (input, init) =>
+          server.fetch(
+            input,
+            input.toString().includes("__upload")
+              ? { ...init, body: "CORRUPT" }
+              : init
+          )
+      });
+
+      const error = await corrupting.storage
+        .upload("correct", undefined, { checksum: "crc32c" })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(error.message).toContain("crc32c checksum did not match");
+    });
+  });
+
+  describe("uploadMany", () => {
+    it("should report per-item results without rejecting", async () => {
+      server.injectFault({ path: "signed-url", status: 400 });
+      const completed: number[] = [];
+
+      const results = await cloud.storage.uploadMany(
+        [
+          { body: "first" },
+          { body: "second", metadata: { batch: true } },
+          { body: "third" }
+        ],
+        {
+          concurrency: 1,
+          onItemComplete: (result) => completed.push(result.index)
+        }
+      );
+
+      expect(results.map((result) => result.ok)).toEqual([false, true, true]);
+      expect(completed).toEqual([0, 1, 2]);
+      const [failed, ...succeeded] = results;
+      if (failed?.ok === false) {
+        expect(failed.error.code).toBe(NoCloudError.BAD_REQUEST);
+      }
+      for (const result of succeeded) {
+        if (result.ok) uploadedMediaIds.push(result.value.id);
+      }
+    });
+
+    it("should skip remaining items when stopOnError is set", async () => {
+      server.injectFault({ path: "signed-url", status: 400 });
+      const before = server.requests.length;
+
+      const results = await cloud.storage.uploadMany(
+        [{ body: "a" }, { body: "b" }, { body: "c" }],
+        { concurrency: 1, stopOnError: true }
+      );
+
+      expect(results.every((result) => !result.ok)).toBe(true);
+      const skipped = results[2];
+      expect(skipped?.ok === false && skipped.error.code).toBe(
+        NoCloudError.ABORTED
+      );
+      expect(server.requests.length - before).toBe(1);
+    });
   });
 
   describe("uploadStream", () => {
@@ -132,4 +440,1794 @@ describe("Storage API (Stage)", () => {
       uploadedMediaIds.push(response.id);
     });
   });
+
+  describe("upload options", () => {
+    it("should report upload progress", async () => {
+      const events: number[] = [];
+      const response = await cloud.storage.upload(
+        new Blob(["progress content"], { type: "text/plain" }),
+        undefined,
+        { onProgress: ({ percent }) => events.push(percent) }
+      );
+
+      expect(events.at(-1)).toBe(100);
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should reject with ABORTED when the signal is aborted", async () => {
+      const controller = new AbortController();
+      server.injectFault({ path: "signed-url", delayMs: 1000 });
+      const promise = cloud.storage.upload("aborted content", undefined, {
+        signal: controller.signal
+      });
+      controller.abort();
+
+      const error = await promise.catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.ABORTED)).toBe(true);
+    });
+  });
+
+  describe("uploadMultipart", () => {
+    const partSize = 5 * 1024 * 1024;
+    const body = new Blob([new Uint8Array(partSize * 2 + 1024).fill(7)], {
+      type: "application/octet-stream"
+    });
+
+    it("should resume an interrupted multipart upload", async () => {
+      let token: MultipartResumeToken | undefined;
+      server.injectFault({
+        method: "PUT",
+        path: /__upload\/.+\/2$/,
+        status: 500
+      });
+
+      const failed = await cloud.storage
+        .uploadMultipart(body, {
+          partSize,
+          concurrency: 1,
+          retries: 0,
+          abortOnFailure: false,
+          onPartComplete: (t) => (token = t)
+        })
+        .catch((e) => e);
+      expect(failed).toBeInstanceOf(NoCloudAPIError);
+      expect(token?.parts).toHaveLength(1);
+
+      const response = await cloud.storage.uploadMultipart(body, {
+        resumeToken: token
+      });
+      expect(response.id).toBe(token!.mediaId);
+      expect(server.media.get(response.id)?.size).toBe(body.size);
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should abort failed multipart uploads unless asked to keep them", async () => {
+      const aborts = () =>
+        server.requests.filter(
+          (r) =>
+            r.method === "DELETE" && /storage\/multipart\/[^/]+$/.test(r.url)
+        ).length;
+      const failPart = () =>
+        server.injectFault({
+          method: "PUT",
+          path: /__upload\/.+\/1$/,
+          status: 403
+        });
+
+      failPart();
+      let token: MultipartResumeToken | undefined;
+      let before = aborts();
+      const error = await cloud.storage
+        .uploadMultipart(new Blob(["discarded"]), {
+          onPartComplete: (t) => (token = t)
+        })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.FORBIDDEN)).toBe(true);
+      expect(aborts() - before).toBe(1);
+
+      failPart();
+      before = aborts();
+      const kept = await cloud.storage
+        .uploadMultipart(new Blob(["kept"]), {
+          abortOnFailure: false,
+          onPartComplete: (t) => (token = t)
+        })
+        .catch((e) => e);
+      expect(kept).toBeInstanceOf(NoCloudAPIError);
+      expect(aborts() - before).toBe(0);
+      expect(token).toBeUndefined();
+    });
+
+    it("should read stream parts one at a time", async () => {
+      const total = partSize * 2 + 1024;
+      const chunkSize = 1024 * 1024;
+      let pulled = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const length = Math.min(chunkSize, total - pulled);
+          if (length === 0) return controller.close();
+          pulled += length;
+          controller.enqueue(new Uint8Array(length).fill(7));
+        }
+      });
+
+      let pulledAtFirstPart = 0;
+      const response = await cloud.storage.uploadMultipart(stream, {
+        size: total,
+        partSize,
+        concurrency: 1,
+        contentType: "video/mp4",
+        onPartComplete: (token) => {
+          if (token.parts.length === 1) pulledAtFirstPart = pulled;
+        }
+      });
+      uploadedMediaIds.push(response.id);
+
+      expect(pulledAtFirstPart).toBeLessThan(partSize * 2);
+      expect(server.media.get(response.id)?.size).toBe(total);
+      expect(server.media.get(response.id)?.contentType).toBe("video/mp4");
+    });
+
+    it("should reject streams without a matching size", async () => {
+      const chunks = () =>
+        (async function* () {
+          yield "stream ";
+          yield "body";
+        })();
+      const isBadRequest = (error: unknown) =>
+        NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST);
+
+      const missing = await cloud.storage
+        .uploadMultipart(chunks())
+        .catch((e) => e);
+      expect(isBadRequest(missing)).toBe(true);
+      expect(missing.message).toContain("size is required");
+
+      const shorter = await cloud.storage
+        .uploadMultipart(chunks(), { size: 20 })
+        .catch((e) => e);
+      expect(isBadRequest(shorter)).toBe(true);
+      expect(shorter.message).toContain("ended before");
+
+      const longer = await cloud.storage
+        .uploadMultipart(chunks(), { size: 5 })
+        .catch((e) => e);
+      expect(isBadRequest(longer)).toBe(true);
+      expect(longer.message).toContain("longer than");
+    });
+
+    it("should reject checksums, which parts are not verified with", async () => {
+      const requests = server.requests.length;
+      const error = await cloud.storage
+        // @ts-expect-error checksum is not a multipart option
+        .uploadMultipart(new Blob(["checked"]), { checksum: "sha256" })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(server.requests.length).toBe(requests);
+    });
+
+    it("should retry parts with the retry policy", async () => {
+      const partPuts = () =>
+        server.requests.filter(
+          (r) => r.method === "PUT" && /__upload\/.+\/1$/.test(r.url)
+        ).length;
+      const partUrls = () =>
+        server.requests.filter((r) => r.url.includes("/parts/1/signed-url"))
+          .length;
+
+      server.injectFault({
+        method: "PUT",
+        path: /__upload\/.+\/1$/,
+        status: 503,
+        times: 2
+      });
+      let puts = partPuts();
+      let urls = partUrls();
+      const response = await cloud.storage.uploadMultipart(new Blob(["part"]));
+      uploadedMediaIds.push(response.id);
+      expect(partPuts() - puts).toBe(3);
+      expect(partUrls() - urls).toBe(1);
+
+      // Client errors fail at once
+      server.injectFault({
+        method: "PUT",
+        path: /__upload\/.+\/1$/,
+        status: 403
+      });
+      puts = partPuts();
+      const error = await cloud.storage
+        .uploadMultipart(new Blob(["forbidden"]))
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.FORBIDDEN)).toBe(true);
+      expect(partPuts() - puts).toBe(1);
+    });
+
+    it("should stop waiting to retry a part when aborted", async () => {
+      server.injectFault({
+        method: "PUT",
+        path: /__upload\/.+\/1$/,
+        status: 503
+      });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+      const startedAt = Date.now();
+
+      const error = await cloud.storage
+        .uploadMultipart(new Blob(["aborted"]), {
+          retryDelayMs: 10_000,
+          signal: controller.signal
+        })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.ABORTED)).toBe(true);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+  });
+
+  describe("download", () => {
+    it("should download a file and support range requests", async () => {
+      const { id } = await cloud.storage.upload(
+        new Blob(["Hello, download!"], { type: "text/plain" })
+      );
+      uploadedMediaIds.push(id);
+
+      expect(await cloud.storage.download(id, { as: "text" })).toBe(
+        "Hello, download!"
+      );
+      expect(
+        await cloud.storage.download(id, {
+          as: "text",
+          range: { start: 7, end: 14 }
+        })
+      ).toBe("download");
+
+      const media = await cloud.storage.get(id);
+      const cached = await cloud.storage.get(id, {
+        ifNoneMatch: media.etag!
+      });
+      expect(cached.notModified).toBe(true);
+    });
+
+    it("should map missing files to RESOURCE_NOT_FOUND", async () => {
+      const error = await cloud.storage.download("missing").catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(error, NoCloudError.RESOURCE_NOT_FOUND)
+      ).toBe(true);
+    });
+  });
+
+  describe("list and metadata", () => {
+    it("should list files across pages", async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        const { id } = await cloud.storage.upload(
+          new Blob([`listed ${i}`], { type: "text/csv" }),
+          { listTest: true }
+        );
+        ids.push(id);
+      }
+      uploadedMediaIds.push(...ids);
+
+      const listed: string[] = [];
+      for await (const media of cloud.storage.listAll({
+        limit: 2,
+        metadata: { listTest: true }
+      })) {
+        listed.push(media.id);
+      }
+      expect(listed).toEqual(ids);
+    });
+
+    it("should reject invalid date filters before sending", async () => {
+      const requests = server.requests.length;
+      const error = await cloud.storage
+        .list({ createdAfter: "not a date" })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(error.message).toContain("createdAfter");
+
+      const invalid = await cloud.storage
+        .list({ createdBefore: new Date(NaN) })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(invalid, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(server.requests.length).toBe(requests);
+    });
+
+    it("should read and update metadata", async () => {
+      const { id } = await cloud.storage.upload("metadata content", {
+        a: 1,
+        b: "two"
+      });
+      uploadedMediaIds.push(id);
+
+      const merged = await cloud.storage.updateMetadata(id, {
+        a: null,
+        c: true
+      });
+      expect(merged.metadata).toEqual({ b: "two", c: true });
+
+      const info = await cloud.storage.getMetadata(id);
+      expect(info.contentType).toBe("text/plain");
+      expect(info.size).toBe(16);
+    });
+
+    it("should reject invalid metadata before making a request", async () => {
+      const requestCount = server.requests.length;
+      await expect(
+        cloud.storage.upload("x", { "invalid key": true })
+      ).rejects.toThrow(NoCloudAPIError);
+      expect(server.requests.length).toBe(requestCount);
+    });
+  });
+
+  describe("retries", () => {
+    it("should retry rate limited requests", async () => {
+      server.injectFault({
+        path: "signed-url",
+        status: 429,
+        headers: { "Retry-After": "0" },
+        times: 2
+      });
+
+      const response = await cloud.storage.upload("retried content");
+      expect(response.id).toBeString();
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should cap Retry-After delays at maxDelayMs", async () => {
+      server.injectFault({
+        path: "signed-url",
+        status: 503,
+        headers: { "Retry-After": "86400" }
+      });
+      const capped = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        retryPolicy: { maxDelayMs: 10 }
+      });
+      const startedAt = Date.now();
+
+      const response = await capped.storage.upload("capped content");
+      uploadedMediaIds.push(response.id);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it("should retry dropped connections for idempotent requests", async () => {
+      server.injectFault({ path: "signed-url", dropConnection: true });
+
+      const response = await cloud.storage.upload("reconnected content");
+      expect(response.id).toBeString();
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should not retry non-idempotent requests", async () => {
+      server.injectFault({
+        method: "POST",
+        path: "storage/multipart",
+        status: 503
+      });
+
+      const error = await cloud.storage
+        .uploadMultipart(new Blob(["x"]))
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(NoCloudAPIError);
+      expect(error.status).toBe(503);
+    });
+  });
+
+  describe("interceptors", () => {
+    it("should run interceptors for API and signed upload requests", async () => {
+      const seen: string[] = [];
+      const intercepted = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        interceptors: [
+          {
+            onRequest: async (context) => {
+              context.headers.set("X-Trace-Id", "trace-1");
+              context.state.start = context.startedAt;
+            },
+            onResponse: (context, response) => {
+              seen.push(`${context.kind}:${response.status}`);
+            }
+          }
+        ]
+      });
+
+      const { id } = await intercepted.storage.upload("intercepted");
+      uploadedMediaIds.push(id);
+
+      expect(seen).toEqual(["api:200", "external:200"]);
+      expect(server.requests.at(-1)?.headers["x-trace-id"]).toBe("trace-1");
+    });
+
+    it("should short-circuit requests from onRequest", async () => {
+      const intercepted = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        interceptors: [
+          {
+            onRequest: () =>
+              Response.json({ message: "blocked" }, { status: 400 })
+          }
+        ]
+      });
+      const requestCount = server.requests.length;
+
+      const error = await intercepted.storage
+        .getMetadata("anything")
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(server.requests.length).toBe(requestCount);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should abort metadata reads, including before decrypting", async () => {
+      server.injectFault({ path: "metadata", delayMs: 1000, times: 2 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const error = await cloud.storage
+        .getMetadata("slow", { signal: controller.signal })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.ABORTED)).toBe(true);
+
+      const key = await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      const timedOut = await cloud.storage
+        .downloadDecrypted("slow", {
+          keyProvider: new AesKeyProvider(key),
+          deadlineMs: 20
+        })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(timedOut, NoCloudError.TIMEOUT)).toBe(
+        true
+      );
+    });
+
+    it("should time out a hung upload with TIMEOUT", async () => {
+      server.injectFault({ method: "PUT", delayMs: 1000 });
+
+      const error = await cloud.storage
+        .upload("slow content", undefined, { timeoutMs: 20 })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.TIMEOUT)).toBe(true);
+    });
+
+    it("should retry an attempt that timed out", async () => {
+      server.injectFault({ path: "signed-url", delayMs: 1000 });
+
+      const response = await cloud.storage.upload("eventually", undefined, {
+        timeoutMs: 20
+      });
+      expect(response.id).toBeString();
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should enforce the deadline across retries", async () => {
+      server.injectFault({ path: "signed-url", status: 503, times: 100 });
+      const slow = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        retryPolicy: { retries: 100, baseDelayMs: 10, jitter: false }
+      });
+
+      const error = await slow.storage
+        .upload("deadline", undefined, { deadlineMs: 50 })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.TIMEOUT)).toBe(true);
+    });
+
+    it("should report requests cut off by the deadline as TIMEOUT", async () => {
+      server.injectFault({ path: "signed-url", delayMs: 1000, times: 2 });
+
+      const results = await cloud.storage.uploadMany(
+        [{ body: "first" }, { body: "second" }],
+        { deadlineMs: 20 }
+      );
+      expect(
+        results.every(
+          (result) =>
+            !result.ok &&
+            NoCloudAPIError.isError(result.error, NoCloudError.TIMEOUT)
+        )
+      ).toBe(true);
+    });
+
+    it("should report caller aborts as ABORTED, not TIMEOUT", async () => {
+      server.injectFault({ path: "signed-url", delayMs: 1000 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      const error = await cloud.storage
+        .upload("aborted", undefined, {
+          signal: controller.signal,
+          timeoutMs: 500,
+          deadlineMs: 500
+        })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.ABORTED)).toBe(true);
+    });
+  });
+
+  describe("errors", () => {
+    it("should prefer the server error code and keep request details", async () => {
+      server.injectFault({
+        path: "signed-url",
+        status: 422,
+        body: {
+          code: NoCloudError.CONFLICT,
+          message: "Duplicate upload",
+          details: { field: "contentType" },
+          requestId: "req_custom"
+        }
+      });
+
+      const error = await cloud.storage.upload("conflict").catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.CONFLICT)).toBe(true);
+      expect(error.message).toBe("Duplicate upload");
+      expect(error.details).toEqual({ field: "contentType" });
+      expect(error.requestId).toBe("req_custom");
+      expect(error.retryable).toBe(false);
+    });
+
+    it("should map new HTTP statuses to error codes", async () => {
+      server.injectFault({ path: "metadata", status: 403, body: {} });
+
+      const error = await cloud.storage.getMetadata("any").catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.FORBIDDEN)).toBe(true);
+    });
+
+    it("should wrap network failures as NETWORK_ERROR with a cause", async () => {
+      server.injectFault({
+        path: "signed-url",
+        dropConnection: true,
+        times: 4
+      });
+
+      const error = await cloud.storage.upload("offline").catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.NETWORK_ERROR)).toBe(
+        true
+      );
+      expect(error.retryable).toBe(true);
+      expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it("should include the server request ID header", async () => {
+      const error = await cloud.storage.getMetadata("missing").catch((e) => e);
+      expect(error.requestId).toStartWith("req_");
+    });
+  });
+
+  describe("mime detection", () => {
+    const bytes = (...parts: (string | number[])[]) =>
+      new Uint8Array(
+        parts.flatMap((part) =>
+          typeof part === "string"
+            ? Array.from(part, (c) => c.charCodeAt(0))
+            : part
+        )
+      );
+
+    it("should sniff common formats from magic bytes", () => {
+      expect(sniffMimeType(bytes([0x89], "PNG\r\n\x1a\n"))).toBe("image/png");
+      expect(sniffMimeType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+      expect(sniffMimeType(bytes("%PDF-1.7"))).toBe("application/pdf");
+      expect(sniffMimeType(bytes("wOF2"))).toBe("font/woff2");
+      expect(sniffMimeType(bytes([0x1f, 0x8b, 0x08]))).toBe("application/gzip");
+      expect(sniffMimeType(bytes("ID3", [0x04]))).toBe("audio/mpeg");
+    });
+
+    it("should parse ftyp brands and RIFF subtypes", () => {
+      const ftyp = (major: string, ...compatible: string[]) =>
+        bytes(
+          [0, 0, 0, 16 + compatible.length * 4],
+          "ftyp",
+          major,
+          [0, 0, 0, 0],
+          compatible.join("")
+        );
+
+      expect(sniffMimeType(ftyp("isom", "isom", "mp41"))).toBe("video/mp4");
+      expect(sniffMimeType(ftyp("qt  "))).toBe("video/quicktime");
+      expect(sniffMimeType(ftyp("heic", "mif1"))).toBe("image/heic");
+      expect(sniffMimeType(ftyp("mif1", "heic"))).toBe("image/heic");
+      expect(sniffMimeType(ftyp("mif1", "mif1"))).toBe("image/heif");
+      expect(sniffMimeType(bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 "))).toBe(
+        "image/webp"
+      );
+      expect(sniffMimeType(bytes("RIFF", [0, 0, 0, 0], "WAVEfmt "))).toBe(
+        "audio/wav"
+      );
+      expect(sniffMimeType(bytes("RIFF", [0, 0, 0, 0], "AVI LIST"))).toBe(
+        "video/x-msvideo"
+      );
+    });
+
+    it("should fall back to the filename extension", () => {
+      const unknown = bytes("plain text");
+      expect(sniffMimeType(unknown)).toBeNull();
+      expect(sniffMimeType(unknown, "notes.csv")).toBe("text/csv");
+      expect(sniffMimeType(bytes("PK", [3, 4]), "report.docx")).toBe(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      );
+    });
+
+    it("should not treat arbitrary base64 starting with AAAA as video", () => {
+      expect(detectBase64MimeType(btoa("\0\0\0\0hello world!"))).toBeNull();
+      expect(detectBase64MimeType(btoa("\0\0\0\x14ftypqt  \0\0\0\0"))).toBe(
+        "video/quicktime"
+      );
+    });
+
+    it("should sniff the first chunk of a Blob or stream", async () => {
+      const png = bytes([0x89], "PNG\r\n\x1a\n", "rest of image");
+      expect(await detectMimeType(new Blob([png]))).toBe("image/png");
+
+      const { mimeType, stream } = await sniffStream(new Blob([png]).stream());
+      expect(mimeType).toBe("image/png");
+      expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(
+        png
+      );
+    });
+
+    it("should label type-less uploads by their content", async () => {
+      const gif = bytes("GIF89a", [1, 0, 1, 0]);
+      const fromBlob = await cloud.storage.upload(new Blob([gif]));
+      const fromBuffer = await cloud.storage.upload(gif.buffer);
+      uploadedMediaIds.push(fromBlob.id, fromBuffer.id);
+
+      expect(server.media.get(fromBlob.id)?.contentType).toBe("image/gif");
+      expect(server.media.get(fromBuffer.id)?.contentType).toBe("image/gif");
+    });
+  });
+
+  describe("upload policy", () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a
+    ]);
+
+    it("should reject disallowed types before any request", async () => {
+      const policyCloud = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        uploadPolicy: { allowedTypes: ["image/*"] }
+      });
+      const before = server.requests.length;
+
+      const error = await policyCloud.storage
+        .upload(new Blob(["text"], { type: "text/plain" }))
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(error, NoCloudError.UNSUPPORTED_MEDIA_TYPE)
+      ).toBe(true);
+      expect(error.details).toEqual({
+        rule: "allowedTypes",
+        contentType: "text/plain",
+        allowedTypes: ["image/*"]
+      });
+      expect(server.requests.length).toBe(before);
+
+      const response = await policyCloud.storage.upload(
+        new Blob([png], { type: "image/png" })
+      );
+      uploadedMediaIds.push(response.id);
+    });
+
+    it("should stop reading streams that exceed maxSize", async () => {
+      let pulls = 0;
+      let cancelled = false;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++;
+          controller.enqueue(new Uint8Array(1024));
+        },
+        cancel() {
+          cancelled = true;
+        }
+      });
+
+      const error = await cloud.storage
+        .upload(endless, undefined, { policy: { maxSize: 4096 } })
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(error, NoCloudError.PAYLOAD_TOO_LARGE)
+      ).toBe(true);
+      expect(error.details).toMatchObject({ rule: "maxSize", maxSize: 4096 });
+      expect(cancelled).toBe(true);
+      expect(pulls).toBeLessThan(10);
+    });
+
+    it("should enforce size limits with per-call overrides", async () => {
+      const tooLarge = await cloud.storage
+        .upload("0123456789", undefined, { policy: { maxSize: 5 } })
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(tooLarge, NoCloudError.PAYLOAD_TOO_LARGE)
+      ).toBe(true);
+      expect(tooLarge.details).toEqual({
+        rule: "maxSize",
+        size: 10,
+        maxSize: 5
+      });
+
+      await expect(
+        cloud.storage.uploadStream(
+          new Blob(["0123456789"]).stream(),
+          "text/plain",
+          5
+        )
+      ).rejects.toThrow("longer than the declared length");
+
+      const tooSmall = await cloud.storage
+        .uploadStream(new Blob(["a"]).stream(), "text/plain", 1, undefined, {
+          policy: { minSize: 2 }
+        })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(tooSmall, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(tooSmall.retryable).toBe(false);
+    });
+
+    it("should verify the sniffed type matches the declared type", async () => {
+      const error = await cloud.storage
+        .upload(new Blob([png], { type: "image/jpeg" }), undefined, {
+          policy: { verifyContentType: true }
+        })
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(error, NoCloudError.UNSUPPORTED_MEDIA_TYPE)
+      ).toBe(true);
+      expect(error.details).toEqual({
+        rule: "verifyContentType",
+        declaredType: "image/jpeg",
+        detectedType: "image/png"
+      });
+
+      // Unrecognized content is accepted
+      const response = await cloud.storage.upload(
+        new Blob(["plain text"], { type: "text/plain" }),
+        undefined,
+        { policy: { verifyContentType: true } }
+      );
+      uploadedMediaIds.push(response.id);
+    });
+  });
+
+  describe("visibility", () => {
+    it("should keep private media behind signed download URLs", async () => {
+      const response = await cloud.storage.upload("secret", undefined, {
+        visibility: "private"
+      });
+      uploadedMediaIds.push(response.id);
+      expect(server.media.get(response.id)?.visibility).toBe("private");
+      expect((await server.fetch(response.url)).status).toBe(403);
+
+      const signed = await cloud.storage.createSignedDownloadUrl(response.id, {
+        expiresIn: 60,
+        contentDisposition: 'attachment; filename="secret.txt"',
+        responseContentType: "application/octet-stream"
+      });
+      const download = await server.fetch(signed.url);
+      expect(download.status).toBe(200);
+      expect(await download.text()).toBe("secret");
+      expect(download.headers.get("Content-Disposition")).toBe(
+        'attachment; filename="secret.txt"'
+      );
+      expect(download.headers.get("Content-Type")).toBe(
+        "application/octet-stream"
+      );
+
+      const expiresAt = getExpiresAt(signed);
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 55_000);
+      expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60_000);
+      expect(isSignedUrlExpired(signed)).toBe(false);
+      expect(isSignedUrlExpired(signed, 120_000)).toBe(true);
+    });
+
+    it("should change visibility after upload", async () => {
+      const response = await cloud.storage.upload("shared");
+      uploadedMediaIds.push(response.id);
+      expect(server.media.get(response.id)?.visibility).toBe("public");
+      expect((await server.fetch(response.url)).status).toBe(200);
+
+      const info = await cloud.storage.setVisibility(response.id, "private");
+      expect(info.visibility).toBe("private");
+      expect((await server.fetch(response.url)).status).toBe(403);
+    });
+
+    it("should reject lifetimes outside 1 second to 7 days", async () => {
+      const before = server.requests.length;
+      for (const expiresIn of [0, 1.5, 604_801]) {
+        const error = await cloud.storage
+          .createSignedDownloadUrl("any", { expiresIn })
+          .catch((e) => e);
+        expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+          true
+        );
+      }
+      expect(server.requests.length).toBe(before);
+    });
+  });
+
+  describe("signed URL handoff", () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0
+    ]);
+    let uploader: NoCloudUploader;
+
+    beforeAll(() => {
+      uploader = new NoCloudUploader({
+        fetch: server.fetch,
+        retryPolicy: { baseDelayMs: 1, jitter: false }
+      });
+    });
+
+    it("should upload to a constrained URL without an API key", async () => {
+      const signed = await cloud.storage.createSignedUploadUrl({
+        contentType: "image/*",
+        maxSize: 1024,
+        metadata: { userId: "123" },
+        visibility: "private"
+      });
+      expect(signed.constraints).toEqual({
+        contentType: "image/*",
+        maxSize: 1024
+      });
+
+      const progress: number[] = [];
+      const response = await uploader.upload(
+        signed,
+        new Blob([png], { type: "image/png" }),
+        { onProgress: ({ percent }) => progress.push(percent) }
+      );
+      uploadedMediaIds.push(response.id);
+
+      expect(response).toEqual({ id: signed.mediaId, url: signed.mediaUrl });
+      const record = server.media.get(response.id);
+      expect(record?.contentType).toBe("image/png");
+      expect(record?.metadata).toEqual({ userId: "123" });
+      expect(record?.visibility).toBe("private");
+      expect(progress.at(-1)).toBe(100);
+      expect(server.requests.at(-1)?.headers.authorization).toBeUndefined();
+    });
+
+    it("should check constraints and expiry before uploading", async () => {
+      const signed = await cloud.storage.createSignedUploadUrl({
+        contentType: "image/png",
+        maxSize: 8
+      });
+      const before = server.requests.length;
+
+      const tooLarge = await uploader
+        .upload(signed, new Blob([png], { type: "image/png" }))
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(tooLarge, NoCloudError.PAYLOAD_TOO_LARGE)
+      ).toBe(true);
+
+      const wrongType = await uploader.upload(signed, "text").catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(wrongType, NoCloudError.UNSUPPORTED_MEDIA_TYPE)
+      ).toBe(true);
+
+      const expired = await uploader
+        .upload({ ...signed, expiresAt: new Date().toISOString() }, png)
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(expired, NoCloudError.SIGNED_URL_EXPIRED)
+      ).toBe(true);
+      expect(expired.retryable).toBe(false);
+      expect(server.requests.length).toBe(before);
+
+      // Storage enforces the signed constraints too
+      const tampered = await server.fetch(signed.url, {
+        method: "PUT",
+        headers: { "Content-Type": "text/html" },
+        body: "<script></script>"
+      });
+      expect(tampered.status).toBe(403);
+    });
+
+    it("should retry failed uploads to a signed URL", async () => {
+      const signed = await cloud.storage.generateSignedUrl("text/plain", 5);
+      server.injectFault({ path: "__upload", status: 503 });
+
+      const response = await cloud.storage.uploadToSignedUrl(signed, "hello");
+      uploadedMediaIds.push(response.id);
+
+      expect(response.id).toBe(signed.mediaId);
+      expect(server.media.get(signed.mediaId)?.data).toEqual(
+        new TextEncoder().encode("hello")
+      );
+    });
+
+    it("should validate constraints when creating a URL", async () => {
+      for (const options of [
+        { contentType: "image", maxSize: 10 },
+        { contentType: "image/png", maxSize: 0 },
+        { contentType: "image/png", maxSize: 10, expiresIn: 604_801 }
+      ]) {
+        const error = await cloud.storage
+          .createSignedUploadUrl(options)
+          .catch((e) => e);
+        expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+          true
+        );
+      }
+    });
+  });
+
+  describe("image URLs", () => {
+    const mediaBaseUrl = "https://storage.nocloud.test/__media";
+    const base = `${mediaBaseUrl}/media_1`;
+    let images: NoCloud;
+
+    beforeAll(() => {
+      images = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        mediaBaseUrl: `${mediaBaseUrl}/`
+      });
+    });
+
+    it("should build canonical transformation URLs", () => {
+      expect(
+        images.storage.imageUrl("media_1", {
+          width: 640,
+          quality: 80,
+          format: "webp",
+          fit: "cover",
+          dpr: 2
+        })
+      ).toBe(`${base}?dpr=2&fit=cover&format=webp&q=80&w=640`);
+
+      // Defaults are omitted so equivalent options share a URL
+      expect(
+        images.storage.imageUrl("media_1", {
+          width: 640,
+          fit: "scale-down",
+          dpr: 1
+        })
+      ).toBe(images.storage.imageUrl("media_1", { width: 640 }));
+      expect(images.storage.imageUrl("media_1")).toBe(base);
+    });
+
+    it("should keep signed URL parameters and replace existing transforms", () => {
+      expect(
+        images.storage.imageUrl(
+          "https://storage.nocloud.test/__media/media_1?token=abc&w=100",
+          { width: 200, format: "avif" }
+        )
+      ).toBe(
+        "https://storage.nocloud.test/__media/media_1?token=abc&format=avif&w=200"
+      );
+    });
+
+    it("should validate parameter ranges", () => {
+      for (const options of [
+        { width: 0 },
+        { height: 8193 },
+        { width: 10.5 },
+        { quality: 101 },
+        { dpr: 5 },
+        { width: 5000, dpr: 2 },
+        { format: "gif" as never },
+        { fit: "stretch" as never }
+      ]) {
+        expect(() => images.storage.imageUrl("media_1", options)).toThrow(
+          NoCloudAPIError
+        );
+      }
+    });
+
+    it("should build srcset strings", () => {
+      expect(
+        images.storage.imageSrcSet("media_1", {
+          widths: [640, 320, 640],
+          format: "webp"
+        })
+      ).toBe(`${base}?format=webp&w=320 320w, ${base}?format=webp&w=640 640w`);
+      expect(
+        images.storage.imageSrcSet("media_1", { width: 100, densities: [1, 2] })
+      ).toBe(`${base}?w=100 1x, ${base}?dpr=2&w=100 2x`);
+      expect(() =>
+        images.storage.imageSrcSet("media_1", { width: 100, widths: [200] })
+      ).toThrow(NoCloudAPIError);
+      expect(() => images.storage.imageSrcSet("media_1", {})).toThrow(
+        NoCloudAPIError
+      );
+    });
+
+    it("should require a media URL or mediaBaseUrl", () => {
+      expect(() => cloud.storage.imageUrl("media_1")).toThrow(NoCloudAPIError);
+      expect(
+        cloud.storage.imageUrl("https://cdn.example.com/media_1", { width: 10 })
+      ).toBe("https://cdn.example.com/media_1?w=10");
+    });
+
+    it("should serve transformed images without an API key", async () => {
+      const png = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0
+      ]);
+      const { id, url } = await cloud.storage.upload(png);
+      uploadedMediaIds.push(id);
+
+      for (const imageUrl of [
+        cloud.storage.imageUrl(url, { width: 320, format: "webp" }),
+        images.storage.imageUrl(id, { width: 320, format: "webp" })
+      ]) {
+        expect(imageUrl).toBe(`${url}?format=webp&w=320`);
+
+        // Fetched like a browser would, without the Authorization header
+        const response = await server.fetch(imageUrl);
+        expect(response.status).toBe(200);
+        expect(response.headers.get("Content-Type")).toBe("image/webp");
+        expect(response.headers.get("X-Image-Transform")).toBe(
+          "format=webp&w=320"
+        );
+        expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+      }
+
+      const invalid = await server.fetch(`${url}?w=0`);
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe("image preprocessing", () => {
+    const bytes = (...parts: (number[] | string)[]) =>
+      new Uint8Array(
+        parts.flatMap((part) =>
+          typeof part === "string" ? [...new TextEncoder().encode(part)] : part
+        )
+      );
+    const segment = (marker: number, payload: Uint8Array) =>
+      bytes(
+        [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff],
+        [...payload]
+      );
+    const contains = (data: Uint8Array | null | undefined, text: string) =>
+      new TextDecoder("latin1").decode(data ?? undefined).includes(text);
+
+    // 4000x3000 JPEG rotated by EXIF orientation 6, with GPS, XMP and a comment
+    const exif = bytes(
+      "Exif\0\0II*\0",
+      [8, 0, 0, 0, 2, 0],
+      [0x12, 0x01, 3, 0, 1, 0, 0, 0, 6, 0, 0, 0],
+      [0x25, 0x88, 4, 0, 1, 0, 0, 0, 38, 0, 0, 0],
+      [0, 0, 0, 0],
+      "GPSDATA"
+    );
+    const sof = bytes(
+      [8, 0x0b, 0xb8, 0x0f, 0xa0, 3],
+      [1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]
+    );
+    const jpeg = bytes(
+      [0xff, 0xd8],
+      [...segment(0xe0, bytes("JFIF\0", [1, 1, 0, 0, 1, 0, 1, 0, 0]))],
+      [...segment(0xe1, exif)],
+      [...segment(0xe1, bytes("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>"))],
+      [...segment(0xfe, bytes("camera comment"))],
+      [...segment(0xc0, sof)],
+      [0xff, 0xda, 0, 8, 1, 1, 0, 0, 0x3f, 0, 0x12, 0x34, 0xff, 0xd9]
+    );
+
+    it("should strip JPEG metadata but keep the orientation", async () => {
+      const stripped = stripImageMetadata(jpeg, "image/jpeg");
+      expect(stripped.orientation).toBe(6);
+      expect(contains(stripped.data, "GPSDATA")).toBe(false);
+      expect(contains(stripped.data, "xmpmeta")).toBe(false);
+      expect(contains(stripped.data, "camera comment")).toBe(false);
+
+      const response = await cloud.storage.upload(
+        new Blob([jpeg], { type: "image/jpeg" }),
+        undefined,
+        { transform: {} }
+      );
+      uploadedMediaIds.push(response.id);
+      const record = server.media.get(response.id);
+      expect(record?.contentType).toBe("image/jpeg");
+      expect(record?.data).toEqual(stripped.data);
+      expect(record?.data?.subarray(0, 22)).toEqual(
+        bytes(
+          [...jpeg.subarray(0, 20)],
+          [0xff, 0xe1] // orientation-only EXIF after JFIF
+        )
+      );
+      expect(stripImageMetadata(record!.data!, "image/jpeg").orientation).toBe(
+        6
+      );
+      expect(record?.data?.subarray(-14)).toEqual(jpeg.subarray(-14));
+    });
+
+    it("should strip PNG text chunks", () => {
+      const chunk = (type: string, data: Uint8Array) =>
+        bytes([0, 0, 0, data.length], type, [...data], [0, 0, 0, 0]);
+      const png = bytes(
+        [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+        [...chunk("IHDR", new Uint8Array(13))],
+        [...chunk("tEXt", bytes("GPS\0secret"))],
+        [...chunk("IEND", new Uint8Array())]
+      );
+      const { data } = stripImageMetadata(png, "image/png");
+      expect(contains(data, "secret")).toBe(false);
+      expect(data.length).toBe(png.length - 22);
+    });
+
+    it("should resize and re-encode through the encoder hook", async () => {
+      const webp = bytes("RIFF", [14, 0, 0, 0], "WEBPVP8 ", [2, 0, 0, 0, 0, 0]);
+      const requests: ImageEncodeRequest[] = [];
+      const response = await cloud.storage.upload(jpeg, undefined, {
+        transform: {
+          maxDimension: 1600,
+          format: "webp",
+          quality: 70,
+          encoder: async (request) => {
+            requests.push(request);
+            return webp;
+          }
+        },
+        policy: { allowedTypes: ["image/webp"] }
+      });
+      uploadedMediaIds.push(response.id);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        contentType: "image/jpeg",
+        format: "image/webp",
+        quality: 70,
+        maxDimension: 1600,
+        orientation: 6
+      });
+      expect(server.media.get(response.id)?.contentType).toBe("image/webp");
+      expect(server.media.get(response.id)?.data).toEqual(webp);
+    });
+
+    it("should require an encoder where OffscreenCanvas is unavailable", async () => {
+      const before = server.requests.length;
+      const error = await cloud.storage
+        .upload(jpeg, undefined, { transform: { maxDimension: 1000 } })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(error, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+
+      const invalid = await cloud.storage
+        .upload(jpeg, undefined, { transform: { quality: 0 } })
+        .catch((e) => e);
+      expect(NoCloudAPIError.isError(invalid, NoCloudError.BAD_REQUEST)).toBe(
+        true
+      );
+      expect(server.requests.length).toBe(before);
+    });
+
+    it("should upload other content unchanged", async () => {
+      const response = await cloud.storage.upload("plain text", undefined, {
+        transform: { maxDimension: 10 }
+      });
+      uploadedMediaIds.push(response.id);
+      expect(server.media.get(response.id)?.data).toEqual(
+        new TextEncoder().encode("plain text")
+      );
+    });
+  });
+
+  describe("upload queue", () => {
+    const nextEvent = <E extends keyof UploadQueueEvents>(
+      queue: UploadQueue,
+      event: E
+    ) =>
+      new Promise<UploadQueueEvents[E]>((resolve) => {
+        const off = queue.on(event, (payload) => {
+          off();
+          resolve(payload);
+        });
+      });
+
+    it("should drain queued uploads and emit events", async () => {
+      const adapter = new MemoryQueueAdapter();
+      const queue = new UploadQueue(cloud.storage, {
+        adapter,
+        concurrency: 2
+      });
+      const events: string[] = [];
+      for (const event of [
+        "queued",
+        "started",
+        "progress",
+        "succeeded",
+        "failed"
+      ] as const) {
+        queue.on(event, () => events.push(event));
+      }
+      queue.on("succeeded", ({ response }) =>
+        uploadedMediaIds.push(response.id)
+      );
+
+      await queue.start();
+      const queued = await Promise.all(
+        ["one", "two", "three"].map((text) =>
+          queue.enqueue(new TextEncoder().encode(text), { text })
+        )
+      );
+      await queue.whenIdle();
+
+      expect(queued.map((upload) => upload.status)).toEqual([
+        "pending",
+        "pending",
+        "pending"
+      ]);
+      expect(events.filter((event) => event === "queued")).toHaveLength(3);
+      expect(events.filter((event) => event === "succeeded")).toHaveLength(3);
+      expect(events).toContain("progress");
+      expect(events).not.toContain("failed");
+      expect(queue.list()).toEqual([]);
+      expect(await adapter.load()).toEqual([]);
+    });
+
+    it("should retry uploads that failed while offline", async () => {
+      const queue = new UploadQueue(cloud.storage, { retryDelayMs: 5 });
+      await queue.start();
+      // Exhaust the client's own retries so the attempt fails
+      server.injectFault({
+        path: "signed-url",
+        dropConnection: true,
+        times: 4
+      });
+
+      const failed = nextEvent(queue, "failed");
+      const succeeded = nextEvent(queue, "succeeded");
+      const upload = await queue.enqueue("offline");
+
+      const failure = await failed;
+      expect(failure.willRetry).toBe(true);
+      expect(failure.error.code).toBe(NoCloudError.NETWORK_ERROR);
+
+      const { response } = await succeeded;
+      uploadedMediaIds.push(response.id);
+      expect(upload.attempts).toBe(2);
+      expect(server.media.get(response.id)?.data).toEqual(
+        new TextEncoder().encode("offline")
+      );
+    });
+
+    it("should keep failed uploads until they are retried", async () => {
+      const adapter = new MemoryQueueAdapter();
+      const queue = new UploadQueue(cloud.storage, { adapter });
+      await queue.start();
+      server.injectFault({ path: "signed-url", status: 400 });
+
+      const failed = nextEvent(queue, "failed");
+      const upload = await queue.enqueue("rejected");
+      expect((await failed).willRetry).toBe(false);
+      await queue.whenIdle();
+
+      expect(upload.status).toBe("failed");
+      expect(upload.error?.code).toBe(NoCloudError.BAD_REQUEST);
+      expect((await adapter.load())[0]?.status).toBe("failed");
+
+      const succeeded = nextEvent(queue, "succeeded");
+      await queue.retry(upload.id);
+      uploadedMediaIds.push((await succeeded).response.id);
+      expect(await adapter.load()).toEqual([]);
+    });
+
+    it("should resume persisted uploads on startup", async () => {
+      const adapter = new MemoryQueueAdapter();
+      const before = new UploadQueue(cloud.storage, {
+        adapter,
+        autoStart: false
+      });
+      await before.enqueue(new Blob(["persisted"], { type: "text/plain" }), {
+        restored: true
+      });
+      await before.whenIdle();
+      expect(await adapter.load()).toHaveLength(1);
+
+      // A new queue, as after a restart, picks up the persisted upload
+      const after = new UploadQueue(cloud.storage, { adapter });
+      const { response } = await nextEvent(after, "succeeded");
+      uploadedMediaIds.push(response.id);
+
+      expect(server.media.get(response.id)?.metadata).toEqual({
+        restored: true
+      });
+      expect(await adapter.load()).toEqual([]);
+    });
+  });
+
+  describe("encryption", () => {
+    let key: CryptoKey;
+    let keyProvider: AesKeyProvider;
+    const generateKey = () =>
+      crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt"
+      ]);
+
+    beforeAll(async () => {
+      key = await generateKey();
+      keyProvider = new AesKeyProvider(key, { keyId: "test-key" });
+    });
+
+    it("should store ciphertext and decrypt it on download", async () => {
+      const content = "sensitive content";
+      const response = await cloud.storage.upload(
+        new Blob([content], { type: "text/plain" }),
+        { owner: "alice" },
+        { encryption: { keyProvider } }
+      );
+      uploadedMediaIds.push(response.id);
+
+      const record = server.media.get(response.id)!;
+      expect(record.contentType).toBe("application/octet-stream");
+      expect(record.size).toBe(getEncryptedSize(content.length));
+      expect(new TextDecoder().decode(record.data!)).not.toContain(content);
+      expect(record.metadata).toMatchObject({
+        owner: "alice",
+        "nocloud.enc.alg": "AES-256-GCM",
+        "nocloud.enc.kid": "test-key",
+        "nocloud.enc.type": "text/plain",
+        "nocloud.enc.size": content.length
+      });
+      expect(record.metadata["nocloud.enc.iv"]).toBeString();
+      expect(record.metadata["nocloud.enc.key"]).toBeString();
+
+      const blob = await cloud.storage.downloadDecrypted(response.id, {
+        keyProvider
+      });
+      expect(blob.type).toStartWith("text/plain");
+      expect(await blob.text()).toBe(content);
+    });
+
+    it("should encrypt streams in chunks", async () => {
+      const chunkSize = 1024;
+      const data = new Uint8Array(chunkSize * 3 + 100).map((_, i) => i % 251);
+      const response = await cloud.storage.uploadStream(
+        Readable.from([data.subarray(0, 1500), data.subarray(1500)]),
+        "application/x-test",
+        data.length,
+        undefined,
+        { encryption: { keyProvider, chunkSize } }
+      );
+      uploadedMediaIds.push(response.id);
+
+      expect(server.media.get(response.id)?.size).toBe(data.length + 4 * 16);
+      const stream = await cloud.storage.downloadDecrypted(response.id, {
+        keyProvider,
+        as: "stream"
+      });
+      expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(
+        data
+      );
+    });
+
+    it("should decrypt an empty body", async () => {
+      const response = await cloud.storage.upload("", undefined, {
+        encryption: { keyProvider }
+      });
+      uploadedMediaIds.push(response.id);
+
+      expect(
+        await cloud.storage.downloadDecrypted(response.id, {
+          keyProvider,
+          as: "text"
+        })
+      ).toBe("");
+    });
+
+    it("should reject modified or truncated content", async () => {
+      const response = await cloud.storage.upload(
+        new Uint8Array(3000).fill(7),
+        undefined,
+        { encryption: { keyProvider, chunkSize: 1024 } }
+      );
+      uploadedMediaIds.push(response.id);
+      const record = server.media.get(response.id)!;
+      const original = record.data!;
+
+      record.data = original.slice();
+      record.data[10] = record.data[10]! ^ 1;
+      const modified = await cloud.storage
+        .downloadDecrypted(response.id, { keyProvider })
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(modified, NoCloudError.DECRYPTION_FAILED)
+      ).toBe(true);
+
+      // Dropping the final chunk leaves a valid, but non-final, last chunk
+      record.data = original.slice(0, 2 * (1024 + 16));
+      const truncated = await cloud.storage
+        .downloadDecrypted(response.id, { keyProvider, as: "arrayBuffer" })
+        .catch((e) => e);
+      expect(
+        NoCloudAPIError.isError(truncated, NoCloudError.DECRYPTION_FAILED)
+      ).toBe(true);
+      record.data = original;
+    });
+
+    it("should use a custom key provider and previous keys", async () => {
+      const wrapped: Uint8Array[] = [];
+      const kms: KeyProvider = {
+        async wrapKey(dataKey) {
+          wrapped.push(dataKey.slice());
+          return { keyId: "kms", wrappedKey: String(wrapped.length - 1) };
+        },
+        async unwrapKey({ wrappedKey }) {
+          return wrapped[Number(wrappedKey)]!;
+        }
+      };
+      const response = await cloud.storage.upload("via kms", undefined, {
+        encryption: { keyProvider: kms }
+      });
+      uploadedMediaIds.push(response.id);
+      expect(server.media.get(response.id)?.metadata["nocloud.enc.key"]).toBe(
+        "0"
+      );
+      expect(
+        await cloud.storage.downloadDecrypted(response.id, {
+          keyProvider: kms,
+          as: "text"
+        })
+      ).toBe("via kms");
+
+      const rotated = new AesKeyProvider(await generateKey(), {
+        keyId: "next-key",
+        previousKeys: { "test-key": key }
+      });
+      const old = await cloud.storage.upload("before rotation", undefined, {
+        encryption: { keyProvider }
+      });
+      uploadedMediaIds.push(old.id);
+      expect(
+        await cloud.storage.downloadDecrypted(old.id, {
+          keyProvider: rotated,
+          as: "text"
+        })
+      ).toBe("before rotation");
+    });
+
+    it("should reject unencrypted media and unknown keys", async () => {
+      const plain = await cloud.storage.upload("plain");
+      uploadedMediaIds.push(plain.id);
+      await expect(
+        cloud.storage.downloadDecrypted(plain.id, { keyProvider })
+      ).rejects.toMatchObject({ status: 400 });
+
+      const other = new AesKeyProvider(await generateKey(), {
+        keyId: "test-key"
+      });
+      const encrypted = await cloud.storage.upload("secret", undefined, {
+        encryption: { keyProvider }
+      });
+      uploadedMediaIds.push(encrypted.id);
+      await expect(
+        cloud.storage.downloadDecrypted(encrypted.id, { keyProvider: other })
+      ).rejects.toMatchObject({ code: NoCloudError.DECRYPTION_FAILED });
+    });
+  });
+
+  describe("dedupe", () => {
+    const requestsSince = (start: number) =>
+      server.requests.slice(start).map(({ method, url }) => {
+        const { pathname } = new URL(url);
+        return `${method} ${pathname.slice(pathname.lastIndexOf("/") + 1)}`;
+      });
+
+    it("should return existing content without uploading it again", async () => {
+      const body = "shared avatar bytes";
+      const first = await cloud.storage.upload(body, undefined, {
+        dedupe: true
+      });
+      uploadedMediaIds.push(first.id);
+      expect(first.deduplicated).toBeUndefined();
+      expect(first.checksums?.sha256).toBeString();
+
+      const start = server.requests.length;
+      const second = await cloud.storage.upload(
+        new Blob([body], { type: "text/plain" }),
+        { other: true },
+        { dedupe: true }
+      );
+      expect(second).toEqual({
+        id: first.id,
+        url: first.url,
+        deduplicated: true
+      });
+      expect(requestsSince(start)).toEqual(["GET lookup"]);
+    });
+
+    it("should keep public and private content apart", async () => {
+      const body = "same bytes, different visibility";
+      const publicMedia = await cloud.storage.upload(body, undefined, {
+        dedupe: true
+      });
+      const privateMedia = await cloud.storage.upload(body, undefined, {
+        dedupe: true,
+        visibility: "private"
+      });
+      uploadedMediaIds.push(publicMedia.id, privateMedia.id);
+
+      expect(privateMedia.id).not.toBe(publicMedia.id);
+      expect(privateMedia.deduplicated).toBeUndefined();
+    });
+
+    it("should deduplicate streams", async () => {
+      const data = new Uint8Array(2048).fill(3);
+      const first = await cloud.storage.uploadStream(
+        new Blob([data]).stream(),
+        "application/octet-stream",
+        data.length,
+        undefined,
+        { dedupe: true }
+      );
+      uploadedMediaIds.push(first.id);
+
+      const second = await cloud.storage.upload(data, undefined, {
+        dedupe: true
+      });
+      expect(second.id).toBe(first.id);
+      expect(second.deduplicated).toBe(true);
+    });
+
+    it("should skip the lookup for cached content until it is deleted", async () => {
+      const dedupeCache = new LruDedupeCache();
+      const cached = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        dedupeCache
+      });
+      const body = "cached pdf bytes";
+      const first = await cached.storage.upload(body, undefined, {
+        dedupe: true
+      });
+
+      const start = server.requests.length;
+      const second = await cached.storage.upload(body, undefined, {
+        dedupe: true
+      });
+      expect(second.id).toBe(first.id);
+      expect(server.requests.length).toBe(start);
+
+      await cached.storage.delete(first.id);
+      const third = await cached.storage.upload(body, undefined, {
+        dedupe: true
+      });
+      uploadedMediaIds.push(third.id);
+      expect(third.id).not.toBe(first.id);
+      expect(third.deduplicated).toBeUndefined();
+    });
+
+    it("should evict the least recently used entries", () => {
+      const cache = new LruDedupeCache(2);
+      cache.set("a", { id: "1", url: "u1" });
+      cache.set("b", { id: "2", url: "u2" });
+      cache.get("a");
+      cache.set("c", { id: "3", url: "u3" });
+
+      expect(cache.get("a")?.id).toBe("1");
+      expect(cache.get("b")).toBeUndefined();
+      expect(cache.get("c")?.id).toBe("3");
+    });
+
+    it("should reject dedupe with encryption", async () => {
+      const key = await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      await expect(
+        cloud.storage.upload("secret", undefined, {
+          dedupe: true,
+          encryption: { keyProvider: new AesKeyProvider(key) }
+        })
+      ).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  describe("logging and tracing", () => {
+    type Record = { level: string; message: string; fields?: LogFields };
+    type RecordedSpan = {
+      name: string;
+      attributes: SpanAttributes;
+      parent?: RecordedSpan;
+      ended: boolean;
+      error?: NoCloudAPIError;
+    };
+
+    const createRecorders = () => {
+      const records: Record[] = [];
+      const spans: RecordedSpan[] = [];
+      const record = (level: string) => (message: string, fields?: LogFields) =>
+        records.push({ level, message, fields });
+      const logger: Logger = {
+        debug: record("debug"),
+        info: record("info"),
+        warn: record("warn"),
+        error: record("error")
+      };
+      const tracer: Tracer = {
+        startSpan(name, attributes, parent) {
+          const span: RecordedSpan & Span = {
+            name,
+            attributes: { ...attributes },
+            parent: parent as RecordedSpan | undefined,
+            ended: false,
+            setAttributes(attributes) {
+              Object.assign(span.attributes, attributes);
+            },
+            end(error) {
+              span.ended = true;
+              span.error = error;
+            }
+          };
+          spans.push(span);
+          return span;
+        }
+      };
+      return { records, spans, logger, tracer };
+    };
+
+    it("should log requests with the API key redacted", async () => {
+      const { records, logger } = createRecorders();
+      const logged = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        retryPolicy: { baseDelayMs: 1, jitter: false },
+        logger,
+        logLevel: "debug"
+      });
+      server.injectFault({ path: "signed-url", status: 503 });
+
+      const response = await logged.storage.upload("logged content");
+      uploadedMediaIds.push(response.id);
+
+      const sent = records.filter((r) => r.message === "Sending request");
+      const api = sent.find((r) => r.fields?.kind === "api")!;
+      expect(api.level).toBe("debug");
+      expect(api.fields?.headers).toMatchObject({
+        authorization: "Bearer [REDACTED]"
+      });
+      expect(JSON.stringify(records)).not.toContain("test-api-key");
+
+      const put = sent.find((r) => r.fields?.kind === "external")!;
+      expect(put.fields?.url).not.toContain("?");
+
+      const retry = records.find((r) => r.message === "Retrying request")!;
+      expect(retry.level).toBe("warn");
+      expect(retry.fields).toMatchObject({ attempt: 0, status: 503 });
+
+      const completed = records.find(
+        (r) => r.message === "storage.upload completed"
+      )!;
+      expect(completed.level).toBe("info");
+      expect(completed.fields).toMatchObject({ "media.id": response.id });
+    });
+
+    it("should filter records below the log level", async () => {
+      const { records, logger } = createRecorders();
+      const logged = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        logger,
+        logLevel: "error"
+      });
+
+      const response = await logged.storage.upload("quiet content");
+      uploadedMediaIds.push(response.id);
+      await logged.storage.getMetadata("missing-id").catch(() => {});
+
+      expect(records.map((r) => `${r.level}:${r.message}`)).toEqual([
+        "error:storage.getMetadata failed"
+      ]);
+      expect(records[0]!.fields).toMatchObject({
+        "error.code": NoCloudError.RESOURCE_NOT_FOUND
+      });
+    });
+
+    it("should trace uploads with child spans for each request", async () => {
+      const { spans, tracer } = createRecorders();
+      const traced = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        retryPolicy: { baseDelayMs: 1, jitter: false },
+        tracer
+      });
+      server.injectFault({ path: "signed-url", status: 503 });
+
+      const response = await traced.storage.upload(
+        "traced content",
+        undefined,
+        {
+          contentType: "text/plain"
+        }
+      );
+      uploadedMediaIds.push(response.id);
+
+      const [root, signedUrl, put] = spans;
+      expect(spans.map((span) => span.name)).toEqual([
+        "storage.upload",
+        "signed-url",
+        "put"
+      ]);
+      expect(spans.every((span) => span.ended && !span.error)).toBe(true);
+      expect(signedUrl!.parent).toBe(root);
+      expect(put!.parent).toBe(root);
+
+      expect(root!.attributes).toMatchObject({
+        "media.id": response.id,
+        "media.content_type": "text/plain",
+        "media.size": 14,
+        status: "ok"
+      });
+      expect(root!.attributes["duration.ms"]).toBeNumber();
+      expect(signedUrl!.attributes).toMatchObject({
+        attempt: 1,
+        "http.status_code": 200,
+        status: "ok"
+      });
+      expect(put!.attributes).toMatchObject({
+        "media.size": 14,
+        attempt: 0,
+        "http.status_code": 200
+      });
+    });
+
+    it("should trace delete batches and failed operations", async () => {
+      const { spans, tracer } = createRecorders();
+      const traced = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        tracer
+      });
+      const ids = Array.from({ length: 150 }, (_, i) => `missing-${i}`);
+
+      await traced.storage.delete(ids);
+      const root = spans.find((span) => span.name === "storage.delete")!;
+      const batches = spans.filter((span) => span.name === "batch");
+      expect(root.attributes).toMatchObject({ count: 150, status: "ok" });
+      expect(batches.map((span) => span.attributes["batch.size"])).toEqual([
+        100, 50
+      ]);
+      expect(batches.every((span) => span.parent === root)).toBe(true);
+
+      spans.length = 0;
+      await traced.storage.getMetadata("missing-id").catch(() => {});
+      expect(spans[0]!.attributes).toMatchObject({
+        status: "error",
+        "error.code": NoCloudError.RESOURCE_NOT_FOUND,
+        "http.status_code": 404
+      });
+      expect(spans[0]!.error).toBeInstanceOf(NoCloudAPIError);
+    });
+
+    it("should not fail operations when the tracer or logger throws", async () => {
+      const fail = () => {
+        throw new Error("broken");
+      };
+      const traced = new NoCloud({
+        apiKey: "test-api-key",
+        fetch: server.fetch,
+        tracer: { startSpan: fail },
+        logger: { debug: fail, info: fail, warn: fail, error: fail },
+        logLevel: "debug"
+      });
+
+      const response = await traced.storage.upload("resilient content");
+      uploadedMediaIds.push(response.id);
+      expect(response.id).toBeString();
+    });
+  });
 });